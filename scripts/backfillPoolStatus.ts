@@ -0,0 +1,45 @@
+/**
+ * Backfill the status field for pools created before the pool lifecycle existed
+ * Everything defaulted to open, so the status is rebuilt from isResolved, awaitingOutcomeAt and the deadline
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function backfillPoolStatus() {
+  try {
+    console.log("🔧 Backfilling pool status from legacy fields...\n");
+
+    const now = new Date();
+    const pools = await prisma.pool.findMany({ where: { status: 'open' } });
+
+    console.log(`Found ${pools.length} pools marked open`);
+
+    for (const pool of pools) {
+      let data;
+
+      if (pool.isResolved) {
+        data = { status: 'resolved', resolvedAt: pool.resolvedAt || pool.updatedAt };
+      } else if (pool.awaitingOutcomeAt) {
+        data = { status: 'awaiting-outcome', lockedAt: pool.awaitingOutcomeAt };
+      } else if (pool.deadline <= now) {
+        data = { status: 'locked', lockedAt: now };
+      } else {
+        continue;
+      }
+
+      await prisma.pool.update({ where: { id: pool.id }, data });
+      console.log(`  ✅ ${pool.title}: ${data.status}`);
+    }
+
+    console.log("\n🎉 Finished backfilling pool status!");
+
+  } catch (error) {
+    console.error("❌ Error backfilling pool status:", error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillPoolStatus();
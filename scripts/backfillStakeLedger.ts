@@ -0,0 +1,53 @@
+/**
+ * Backfill Stake rows for predictions staked before the stake ledger existed
+ * Each legacy prediction gets one verified stake for its full stakeAmount
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function backfillStakeLedger() {
+  try {
+    console.log("🔧 Backfilling stake ledger from legacy predictions...\n");
+
+    const legacyPredictions = await prisma.prediction.findMany({
+      where: {
+        stakeAmount: { gt: 0 },
+        stakes: { none: {} }
+      }
+    });
+
+    console.log(`Found ${legacyPredictions.length} predictions without stake rows`);
+
+    for (const prediction of legacyPredictions) {
+      // Legacy rows only kept the first transaction ID, and some kept none
+      const transactionId = prediction.transactionId || `legacy:${prediction.id}`;
+
+      await prisma.stake.create({
+        data: {
+          poolId: prediction.poolId,
+          userWalletAddress: prediction.userWalletAddress,
+          predictionId: prediction.id,
+          predictionValue: prediction.predictionValue,
+          amount: prediction.stakeAmount,
+          transactionId,
+          status: 'verified',
+          verifiedAt: prediction.updatedAt,
+          reward: prediction.claimableReward
+        }
+      });
+
+      console.log(`  ✅ ${prediction.userWalletAddress}: ${prediction.stakeAmount} STX (${transactionId})`);
+    }
+
+    console.log("\n🎉 Finished backfilling stake ledger!");
+
+  } catch (error) {
+    console.error("❌ Error backfilling stake ledger:", error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillStakeLedger();
@@ -18,7 +18,8 @@ async function fixResolvedPools() {
     for (const pool of resolvedPools) {
       console.log(`\nProcessing pool: ${pool.title}`);
       
-      if (!pool.outcomeValue) {
+      // An outcome of 0 is a real outcome
+      if (pool.outcomeValue === null) {
         console.log(`  ❌ Pool has no outcome value, skipping`);
         continue;
       }
@@ -32,7 +33,8 @@ async function fixResolvedPools() {
         console.log(`  🔄 Recalculating rewards for ${predictionsWithoutRewards.length} predictions`);
         
         // Manually calculate rewards since pool is already resolved
-        for (const prediction of pool.predictions) {
+        // Claimed rewards were already paid; correct those with POST /api/admin/pools/:id/correct-outcome
+        for (const prediction of pool.predictions.filter(p => !p.claimed)) {
           const numericPrediction = RewardService.parseNumericPrediction(prediction.predictionValue);
           const score = RewardService.calculateScore(numericPrediction, pool.outcomeValue);
           
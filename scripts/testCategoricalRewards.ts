@@ -0,0 +1,65 @@
+/**
+ * Test script for categorical reward splits
+ * Runs calculateRewards offline on a three-option pool, including an outcome nobody staked on
+ */
+
+import { RewardService } from '../src/services/rewardService';
+
+const pool = {
+  totalStake: 30,
+  protocolFeeBps: 200,
+  scoringStrategy: 'categorical',
+  scoringParams: null,
+  outcomeOptions: ['Alice', 'Bob', 'Carol']
+};
+
+const predictions = [
+  { id: 'p1', userWalletAddress: 'wallet_1', predictionValue: 'Alice', stakeAmount: 10, stakes: [] },
+  { id: 'p2', userWalletAddress: 'wallet_2', predictionValue: 'Alice', stakeAmount: 5, stakes: [] },
+  { id: 'p3', userWalletAddress: 'wallet_3', predictionValue: 'Bob', stakeAmount: 15, stakes: [] }
+];
+
+function check(label: string, actual: number | boolean | null, expected: number | boolean | null): boolean {
+  const ok = typeof actual === 'number' && typeof expected === 'number'
+    ? Math.abs(actual - expected) < 1e-9
+    : actual === expected;
+  console.log(`${ok ? '✅' : '❌'} ${label}: ${actual}`);
+  return ok;
+}
+
+function rewardOf(calculation: ReturnType<typeof RewardService.calculateRewards>, id: string) {
+  return calculation.results.find(result => result.prediction.id === id)!.reward;
+}
+
+function testCategoricalRewards() {
+  console.log('🧪 Testing categorical rewards...\n');
+
+  // Alice wins: her backers split the pool after the 2% fee
+  const aliceWins = RewardService.calculateRewards(pool, predictions, 0);
+  // Carol wins, but nobody picked her: every stake comes back and no fee is taken
+  const carolWins = RewardService.calculateRewards(pool, predictions, 2);
+
+  const results = [
+    check('Alice wins: fee', aliceWins.protocolFee, 0.6),
+    check('Alice wins: first backer', rewardOf(aliceWins, 'p1'), 29.4 * 10 / 15),
+    check('Alice wins: second backer', rewardOf(aliceWins, 'p2'), 29.4 * 5 / 15),
+    check('Alice wins: Bob backer', rewardOf(aliceWins, 'p3'), 0),
+    check('Alice wins: stakes refunded', aliceWins.stakesRefunded, false),
+    check('Carol wins: fee', carolWins.protocolFee, 0),
+    check('Carol wins: stakes refunded', carolWins.stakesRefunded, true),
+    check('Carol wins: first refund', rewardOf(carolWins, 'p1'), 10),
+    check('Carol wins: second refund', rewardOf(carolWins, 'p2'), 5),
+    check('Carol wins: third refund', rewardOf(carolWins, 'p3'), 15),
+    check('Carol wins: nothing left over',
+      carolWins.results.reduce((sum, result) => sum + (result.reward ?? 0), 0), pool.totalStake)
+  ];
+
+  if (results.every(Boolean)) {
+    console.log('\n🎉 All categorical reward checks passed!');
+  } else {
+    console.log('\n❌ Some categorical reward checks failed');
+    process.exit(1);
+  }
+}
+
+testCategoricalRewards();
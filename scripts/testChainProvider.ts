@@ -0,0 +1,117 @@
+/**
+ * Test script for stake verification against the in-memory chain
+ * Seeds a FakeChainProvider from fixtures and runs stake transactions through TransactionService offline
+ */
+
+import path from 'path';
+import { Cl, cvToHex } from '@stacks/transactions';
+import { FakeChainProvider } from '../src/services/chainProviders';
+import { PLATFORM_ADDRESS, StakeBinding, TransactionData, TransactionService } from '../src/services/transactionService';
+import { getStakeAsset } from '../src/types/asset';
+
+const STAKER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const BINDING: StakeBinding = { poolId: 'fixture-pool', predictionValue: 'yes' };
+const TOKEN_CONTRACT = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.fixture-token';
+const TOKEN_BINDING: StakeBinding = {
+  ...BINDING,
+  asset: getStakeAsset({ stakeAsset: `${TOKEN_CONTRACT}::fixture`, stakeAssetDecimals: 8, stakeAssetSymbol: 'FIX' })
+};
+
+function transfer(txId: string, overrides: Partial<TransactionData> = {}, memo: string = TransactionService.buildStakeMemo(BINDING)): TransactionData {
+  return {
+    tx_id: txId,
+    tx_type: 'token_transfer',
+    sender_address: STAKER,
+    tx_status: 'success',
+    token_transfer: {
+      recipient_address: PLATFORM_ADDRESS,
+      amount: '10000000',
+      memo: `0x${Buffer.from(memo).toString('hex')}`
+    },
+    block_height: 1199,
+    ...overrides
+  };
+}
+
+// A SIP-010 transfer(amount, sender, recipient, memo) call, as the Stacks API reports it
+function tokenTransfer(txId: string, contractId: string, amount: bigint): TransactionData {
+  const args = [
+    Cl.uint(amount),
+    Cl.principal(STAKER),
+    Cl.principal(PLATFORM_ADDRESS),
+    Cl.some(Cl.bufferFromUtf8(TransactionService.buildStakeMemo(BINDING)))
+  ];
+
+  return {
+    tx_id: txId,
+    tx_type: 'contract_call',
+    sender_address: STAKER,
+    tx_status: 'success',
+    contract_call: {
+      contract_id: contractId,
+      function_name: 'transfer',
+      function_args: args.map((arg, i) => ({ hex: cvToHex(arg), repr: '', name: `arg${i}`, type: '' }))
+    },
+    block_height: 1199
+  };
+}
+
+function check(label: string, actual: unknown, expected: unknown): boolean {
+  const ok = actual === expected;
+  console.log(`${ok ? '✅' : '❌'} ${label}: ${actual}`);
+  return ok;
+}
+
+async function testChainProvider() {
+  console.log('🧪 Testing stake verification against the fake chain...\n');
+
+  const chain = FakeChainProvider.fromFile(path.join(__dirname, 'fixtures', 'chainFixtures.json'));
+  TransactionService.setProvider(chain);
+
+  chain.addTransaction(transfer('0xvalid'));
+  chain.addTransaction(transfer('0xmempool', { tx_status: 'pending', block_height: undefined }));
+  chain.addTransaction(transfer('0xotherpool', {}, TransactionService.buildStakeMemo({ ...BINDING, poolId: 'other-pool' })));
+  chain.addTransaction(transfer('0xotherside', {}, TransactionService.buildStakeMemo({ ...BINDING, predictionValue: 'no' })));
+  chain.addTransaction(transfer('0xrecipient', {
+    token_transfer: { recipient_address: STAKER, amount: '10000000', memo: '0x' }
+  }));
+
+  chain.addTransaction(tokenTransfer('0xtoken', TOKEN_CONTRACT, 1_000_000_000n)); // 10 FIX at 8 decimals
+  chain.addTransaction(tokenTransfer('0xothertoken', 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.other-token', 1_000_000_000n));
+
+  const verify = (txId: string) => TransactionService.verifyStakeTransaction(txId, STAKER, 10, BINDING);
+  const verifyToken = (txId: string, amount: number = 10) =>
+    TransactionService.verifyStakeTransaction(txId, STAKER, amount, TOKEN_BINDING);
+
+  const results = [
+    check('Fixture transactions loaded', chain.transactions.size, 10),
+    check('Chain tip', await TransactionService.getCurrentBlockHeight(), 1200),
+    check('Valid stake', (await verify('0xvalid')).isValid, true),
+    check('Confirmations', await TransactionService.getConfirmationCount('0xvalid'), 2),
+    check('Mempool stake', (await verify('0xmempool')).code, 'TX_PENDING'),
+    check('Unknown transaction', (await verify('0xmissing')).code, 'TX_NOT_FOUND'),
+    check('Memo for another pool', (await verify('0xotherpool')).code, 'MEMO_POOL_MISMATCH'),
+    check('Memo for another prediction', (await verify('0xotherside')).code, 'MEMO_PREDICTION_MISMATCH'),
+    check('Wrong recipient', (await verify('0xrecipient')).code, 'RECIPIENT_MISMATCH'),
+    check('Wrong amount', (await TransactionService.verifyStakeTransaction('0xvalid', STAKER, 20, BINDING)).code, 'AMOUNT_MISMATCH'),
+    check('Valid token stake', (await verifyToken('0xtoken')).isValid, true),
+    check('Token stake on an STX pool', (await verify('0xtoken')).code, 'ASSET_MISMATCH'),
+    check('STX stake on a token pool', (await verifyToken('0xvalid')).code, 'ASSET_MISMATCH'),
+    check('Another token', (await verifyToken('0xothertoken')).code, 'ASSET_MISMATCH'),
+    check('Wrong token amount', (await verifyToken('0xtoken', 10.00000001)).code, 'AMOUNT_MISMATCH'),
+    check('Failed fixture transaction', (await verify('0x3333333333333333333333333333333333333333333333333333333333333333')).code, 'TX_FAILED'),
+    check('Staker transfers', (await TransactionService.getAddressTransfers(STAKER)).length, 7)
+  ];
+
+  chain.mineBlocks(3);
+  results.push(check('Confirmations after 3 blocks', await TransactionService.getConfirmationCount('0xvalid'), 5));
+
+  if (results.every(Boolean)) {
+    console.log('\n🎉 All chain provider checks passed!');
+  } else {
+    console.log('\n❌ Some chain provider checks failed');
+    process.exit(1);
+  }
+}
+
+testChainProvider();
@@ -0,0 +1,91 @@
+/**
+ * Test script for outcome corrections
+ * Corrects a pool twice in a row after a reward was paid out, and checks that the
+ * wallet ends up owing only the latest gap rather than one debt per correction
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { RewardService } from '../src/services/rewardService';
+import { PayoutService } from '../src/services/payoutService';
+import { MockPayoutSender } from '../src/services/payoutSenders';
+
+const db = new PrismaClient();
+
+const ALICE = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const BOB = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+
+async function createLockedPool() {
+  const pool = await db.pool.create({
+    data: {
+      title: 'Correction Test Pool',
+      description: 'A pool whose outcome gets corrected twice',
+      tag: 'test',
+      deadline: new Date(Date.now() - 60 * 60 * 1000),
+      totalStake: 20,
+      status: 'locked'
+    }
+  });
+
+  const predictions = [];
+  for (const [walletAddress, predictionValue] of [[ALICE, '20'], [BOB, '80']]) {
+    await db.user.upsert({ where: { walletAddress }, update: {}, create: { walletAddress } });
+    predictions.push(await db.prediction.create({
+      data: { poolId: pool.id, userWalletAddress: walletAddress, predictionValue, stakeAmount: 10 }
+    }));
+  }
+
+  return { pool, alice: predictions[0] };
+}
+
+async function main() {
+  console.log('🚀 Starting outcome correction tests...');
+
+  const sender = new MockPayoutSender();
+  PayoutService.setSender(sender);
+
+  try {
+    const { pool, alice } = await createLockedPool();
+
+    // Resolve in Alice's favour, then pay her reward out
+    await RewardService.resolvePool(pool.id, 20, 'test');
+    const resolved = await db.prediction.findUniqueOrThrow({ where: { id: alice.id } });
+    await PayoutService.claimAndEnqueue(alice.id, ALICE, resolved.claimableReward!);
+    await PayoutService.processQueue(); // Broadcast
+    await PayoutService.processQueue(); // Confirm
+
+    const payout = await db.payout.findUniqueOrThrow({ where: { predictionId: alice.id } });
+    console.log(`✅ Alice was paid ${payout.amount} (${payout.status})`);
+
+    // Two corrections in a row
+    const first = await RewardService.correctOutcome(pool.id, 80, 'Wrong source', 'test');
+    const second = await RewardService.correctOutcome(pool.id, 60, 'Wrong source again', 'test');
+
+    const firstLine = first.adjustments.find(a => a.predictionId === alice.id)!;
+    const secondLine = second.adjustments.find(a => a.predictionId === alice.id)!;
+    console.log(`  First correction: new reward ${firstLine.newReward}, debt ${JSON.stringify(firstLine.debt)}`);
+    console.log(`  Second correction: new reward ${secondLine.newReward}, debt ${JSON.stringify(secondLine.debt)}`);
+
+    const debts = await db.rewardDebt.findMany({ where: { predictionId: alice.id }, orderBy: { createdAt: 'asc' } });
+    debts.forEach(d => console.log(`  Debt ${d.id}: ${d.amount} owed by ${d.owedBy} (${d.status})`));
+
+    const open = debts.filter(d => d.status === 'open');
+    const owed = open.reduce((sum, d) => sum + (d.owedBy === 'wallet' ? d.amount : -d.amount), 0);
+    const expected = payout.amount - secondLine.newReward;
+
+    if (open.length === 1 && debts.length === 2 && debts[0].status === 'superseded' && Math.abs(owed - expected) < 1e-9) {
+      console.log(`\n🎉 Alice owes only the latest gap: ${owed}`);
+    } else {
+      console.log(`\n❌ Expected one open debt of ${expected}, found ${open.length} totalling ${owed}`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n💥 Test failed:', error);
+    process.exit(1);
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,96 @@
+/**
+ * Test script for payouts whose broadcast never reached the node
+ * Loses a broadcast with the mock sender and checks the payout fails once the timeout passes,
+ * then requeues it and checks it confirms
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { PayoutService } from '../src/services/payoutService';
+import { MockPayoutSender } from '../src/services/payoutSenders';
+
+const db = new PrismaClient();
+
+const WALLET = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const BROADCAST_TIMEOUT_MINUTES = parseInt(process.env.PAYOUT_BROADCAST_TIMEOUT_MINUTES || '30');
+
+async function createClaimablePrediction() {
+  const pool = await db.pool.create({
+    data: {
+      title: 'Payout Expiry Test Pool',
+      description: 'A resolved pool for lost broadcast testing',
+      tag: 'test',
+      deadline: new Date(Date.now() - 60 * 60 * 1000),
+      totalStake: 15,
+      outcomeValue: 50,
+      status: 'resolved',
+      isResolved: true
+    }
+  });
+
+  await db.user.upsert({ where: { walletAddress: WALLET }, update: {}, create: { walletAddress: WALLET } });
+  return db.prediction.create({
+    data: {
+      poolId: pool.id,
+      userWalletAddress: WALLET,
+      predictionValue: '50',
+      stakeAmount: 15,
+      claimableReward: 15
+    }
+  });
+}
+
+async function main() {
+  console.log('🚀 Starting payout expiry tests...');
+
+  const sender = new MockPayoutSender();
+  PayoutService.setSender(sender);
+
+  try {
+    const prediction = await createClaimablePrediction();
+    const { payout } = await PayoutService.claimAndEnqueue(prediction.id, WALLET, 15);
+
+    // The broadcast errors without reaching the node, so the payout waits in broadcast
+    sender.dropNextSends = 1;
+    await PayoutService.processQueue();
+
+    const waiting = await db.payout.findUniqueOrThrow({ where: { id: payout.id } });
+    console.log(`  Before the timeout: ${waiting.status}, txId ${waiting.txId}, error ${waiting.lastError}`);
+
+    // Pretend the timeout has passed
+    await db.payout.update({
+      where: { id: payout.id },
+      data: { broadcastAt: new Date(Date.now() - (BROADCAST_TIMEOUT_MINUTES + 1) * 60 * 1000) }
+    });
+    await PayoutService.processQueue();
+
+    const expired = await db.payout.findUniqueOrThrow({ where: { id: payout.id } });
+    console.log(`  After the timeout: ${expired.status}, error ${expired.lastError}`);
+
+    // An admin requeues it and it goes out again
+    await PayoutService.retryPayout(payout.id);
+    await PayoutService.processQueue();
+
+    const final = await db.payout.findUniqueOrThrow({ where: { id: payout.id } });
+    console.log(`  After the retry: ${final.status}, txId ${final.txId}`);
+
+    if (
+      waiting.status === 'broadcast' &&
+      expired.status === 'failed' && expired.lastError?.includes('not found') &&
+      final.status === 'confirmed' && final.txId !== waiting.txId && sender.transfers.length === 1
+    ) {
+      console.log('\n🎉 Lost broadcast failed after the timeout and confirmed on retry!');
+    } else {
+      console.log('\n❌ Lost broadcast was not handled as expected');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n💥 Test failed:', error);
+    process.exit(1);
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
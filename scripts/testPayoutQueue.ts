@@ -0,0 +1,90 @@
+/**
+ * Test script for the payout queue
+ * Runs claims through the queue with the mock sender, so no STX moves
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { PayoutService } from '../src/services/payoutService';
+import { MockPayoutSender } from '../src/services/payoutSenders';
+
+const db = new PrismaClient();
+
+async function createResolvedPool() {
+  const pool = await db.pool.create({
+    data: {
+      title: 'Payout Test Pool',
+      description: 'A resolved pool for payout queue testing',
+      tag: 'test',
+      deadline: new Date(Date.now() - 60 * 60 * 1000),
+      totalStake: 30,
+      outcomeValue: 50,
+      status: 'resolved',
+      isResolved: true
+    }
+  });
+
+  const wallets = ['ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG', 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC'];
+  const predictions = [];
+
+  for (const walletAddress of wallets) {
+    await db.user.upsert({ where: { walletAddress }, update: {}, create: { walletAddress } });
+    predictions.push(await db.prediction.create({
+      data: {
+        poolId: pool.id,
+        userWalletAddress: walletAddress,
+        predictionValue: '50',
+        stakeAmount: 15,
+        claimableReward: 15
+      }
+    }));
+  }
+
+  return { pool, predictions };
+}
+
+async function main() {
+  console.log('🚀 Starting payout queue tests...');
+
+  const sender = new MockPayoutSender();
+  PayoutService.setSender(sender);
+
+  try {
+    const { predictions: [first, second] } = await createResolvedPool();
+
+    // First claim goes straight through
+    const { payout: firstPayout } = await PayoutService.claimAndEnqueue(first.id, first.userWalletAddress, 15);
+    console.log(`✅ Queued payout ${firstPayout.id} (${firstPayout.status})`);
+
+    // Second claim fails to broadcast once, then retries
+    sender.failNextSends = 1;
+    const { payout: secondPayout } = await PayoutService.claimAndEnqueue(second.id, second.userWalletAddress, 15);
+
+    await PayoutService.processQueue();
+
+    const afterFirstRun = await db.payout.findMany({ where: { id: { in: [firstPayout.id, secondPayout.id] } } });
+    afterFirstRun.forEach(p => console.log(`  ${p.id}: ${p.status}, attempts ${p.attempts}, txId ${p.txId}, error ${p.lastError}`));
+
+    // Make the retry due now instead of waiting for the backoff
+    await db.payout.update({ where: { id: secondPayout.id }, data: { nextAttemptAt: new Date() } });
+    await PayoutService.processQueue();
+
+    const final = await db.payout.findMany({ where: { id: { in: [firstPayout.id, secondPayout.id] } } });
+    final.forEach(p => console.log(`  ${p.id}: ${p.status}, attempts ${p.attempts}, txId ${p.txId}`));
+
+    if (final.every(p => p.status === 'confirmed' && p.txId) && sender.transfers.length === 2) {
+      console.log('\n🎉 All payouts confirmed!');
+    } else {
+      console.log('\n❌ Payouts did not all confirm');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n💥 Test failed:', error);
+    process.exit(1);
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
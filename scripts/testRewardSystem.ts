@@ -13,6 +13,8 @@ async function createTestScenario() {
 
   try {
     // Clean up existing test data
+    await db.payout.deleteMany({});
+    await db.protocolFee.deleteMany({});
     await db.prediction.deleteMany({});
     await db.pool.deleteMany({});
     await db.user.deleteMany({});
@@ -40,7 +42,8 @@ async function createTestScenario() {
         description: 'A test pool for reward system validation',
         tag: 'crypto',
         deadline: deadline,
-        totalStake: 0
+        totalStake: 0,
+        status: 'locked' // Resolved directly below, without waiting for the deadline
       }
     });
 
@@ -201,7 +204,8 @@ async function testEdgeCases() {
         description: 'A pool with no stakes',
         tag: 'test',
         deadline: new Date(Date.now() + 24 * 60 * 60 * 1000),
-        totalStake: 0
+        totalStake: 0,
+        status: 'locked'
       }
     });
 
@@ -216,7 +220,8 @@ async function testEdgeCases() {
         description: 'Test perfect predictions',
         tag: 'test',
         deadline: new Date(Date.now() + 24 * 60 * 60 * 1000),
-        totalStake: 100
+        totalStake: 100,
+        status: 'locked'
       }
     });
 
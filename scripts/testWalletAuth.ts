@@ -0,0 +1,56 @@
+/**
+ * Test script for wallet signature verification
+ * Signs challenge messages with known test keys and checks them offline
+ */
+
+import { hashMessage } from '@stacks/encryption';
+import { getAddressFromPrivateKey, signMessageHashRsv } from '@stacks/transactions';
+import { AuthService } from '../src/services/authService';
+
+// Well-known devnet keys - never fund these on mainnet
+const ALICE_KEY = '753b7cc01a1a2e86221266a154af739463fce51219d97e4f856cd7200c3bd2a601';
+const BOB_KEY = '7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801';
+
+function sign(message: string, privateKey: string): string {
+  const messageHash = Buffer.from(hashMessage(message)).toString('hex');
+  return signMessageHashRsv({ messageHash, privateKey });
+}
+
+function check(label: string, actual: boolean, expected: boolean): boolean {
+  const ok = actual === expected;
+  console.log(`${ok ? '✅' : '❌'} ${label}: ${actual}`);
+  return ok;
+}
+
+function testWalletAuth() {
+  console.log('🧪 Testing wallet signature verification...\n');
+
+  const alice = getAddressFromPrivateKey(ALICE_KEY, 'testnet');
+  const aliceMainnet = getAddressFromPrivateKey(ALICE_KEY, 'mainnet');
+  const bob = getAddressFromPrivateKey(BOB_KEY, 'testnet');
+
+  const now = new Date();
+  const expires = new Date(now.getTime() + 5 * 60 * 1000);
+  const message = AuthService.buildMessage(alice, 'test-nonce', now, expires);
+  const signature = sign(message, ALICE_KEY);
+
+  console.log(`📝 Message:\n${message}\n`);
+
+  const results = [
+    check('Alice signs for Alice', AuthService.verifyMessageSignature(message, signature, alice), true),
+    check('Alice signs for Alice (mainnet address)', AuthService.verifyMessageSignature(message, signature, aliceMainnet), true),
+    check('Alice signature claimed by Bob', AuthService.verifyMessageSignature(message, signature, bob), false),
+    check('Bob signs for Alice', AuthService.verifyMessageSignature(message, sign(message, BOB_KEY), alice), false),
+    check('Tampered message', AuthService.verifyMessageSignature(message + ' ', signature, alice), false),
+    check('Garbage signature', AuthService.verifyMessageSignature(message, 'deadbeef', alice), false)
+  ];
+
+  if (results.every(Boolean)) {
+    console.log('\n🎉 All wallet auth checks passed!');
+  } else {
+    console.log('\n❌ Some wallet auth checks failed');
+    process.exit(1);
+  }
+}
+
+testWalletAuth();
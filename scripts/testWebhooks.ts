@@ -0,0 +1,101 @@
+/**
+ * Test script for outbound webhooks
+ * Delivers events to a local HTTP receiver and checks signatures, retries and replay
+ */
+
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { PrismaClient } from '@prisma/client';
+import { WebhookService } from '../src/services/webhookService';
+
+const db = new PrismaClient();
+
+interface ReceivedRequest {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+/**
+ * Start a receiver that records every request and answers with the next queued status (200 by default)
+ */
+async function startReceiver(): Promise<{ server: Server; url: string; received: ReceivedRequest[]; statuses: number[] }> {
+  const received: ReceivedRequest[] = [];
+  const statuses: number[] = [];
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { server, url: `http://127.0.0.1:${port}/hooks`, received, statuses };
+}
+
+async function main() {
+  console.log('🚀 Starting webhook tests...');
+
+  const { server, url, received, statuses } = await startReceiver();
+
+  try {
+    const endpoint = await db.webhookEndpoint.create({
+      data: { url, secret: WebhookService.generateSecret(), eventTypes: ['pool.resolved'] }
+    });
+
+    // Filtered out: the endpoint only wants pool.resolved
+    await WebhookService.emit('pool.created', { poolId: 'test-pool' });
+
+    // First attempt fails with a 500, the retry succeeds
+    statuses.push(500);
+    await WebhookService.emit('pool.resolved', { poolId: 'test-pool', outcomeValue: 53 });
+    await WebhookService.processQueue();
+
+    let [delivery] = await db.webhookDelivery.findMany({ where: { endpointId: endpoint.id } });
+    console.log(`  after first attempt: ${delivery.status}, attempts ${delivery.attempts}, HTTP ${delivery.responseStatus}`);
+
+    // Make the retry due now instead of waiting for the backoff
+    await db.webhookDelivery.update({ where: { id: delivery.id }, data: { nextAttemptAt: new Date() } });
+    await WebhookService.processQueue();
+
+    delivery = await db.webhookDelivery.findUniqueOrThrow({ where: { id: delivery.id } });
+    console.log(`  after retry: ${delivery.status}, attempts ${delivery.attempts}, HTTP ${delivery.responseStatus}`);
+
+    // Replay the delivered event
+    await WebhookService.replayDelivery(delivery.id);
+    await WebhookService.processQueue();
+
+    const signaturesValid = received.every(request =>
+      WebhookService.verifySignature(endpoint.secret, request.body, String(request.headers['x-prognos-signature']))
+    );
+    const eventTypes = received.map(request => request.headers['x-prognos-event']);
+    console.log(`  receiver got ${received.length} requests (${eventTypes.join(', ')}), signatures valid: ${signaturesValid}`);
+
+    const deliveries = await db.webhookDelivery.count({ where: { endpointId: endpoint.id } });
+
+    if (deliveries === 1 && received.length === 3 && signaturesValid &&
+        eventTypes.every(type => type === 'pool.resolved')) {
+      console.log('\n🎉 Webhooks delivered, retried and replayed!');
+    } else {
+      console.log('\n❌ Webhook deliveries did not behave as expected');
+      process.exitCode = 1;
+    }
+
+    await db.webhookEndpoint.delete({ where: { id: endpoint.id } });
+  } catch (error) {
+    console.error('\n💥 Test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+    await db.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
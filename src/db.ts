@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 declare global {
   var __db__: PrismaClient | undefined;
@@ -15,4 +15,9 @@ if (process.env.NODE_ENV === 'production') {
   db = global.__db__;
 }
 
+/**
+ * The shared client, or the client of a db.$transaction callback
+ */
+export type DbClient = PrismaClient | Prisma.TransactionClient;
+
 export default db;
\ No newline at end of file
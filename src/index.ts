@@ -1,11 +1,19 @@
+// Load .env before any module reads its configuration
+import "dotenv/config";
 import express from "express";
 import cors from "cors";
-import dotenv from "dotenv";
 import { PrismaClient } from "@prisma/client";
 import poolRoutes from "./routes/pools";
+import authRoutes from "./routes/auth";
+import adminRoutes from "./routes/admin";
+import userRoutes from "./routes/users";
+import leaderboardRoutes from "./routes/leaderboard";
 import { PoolResolutionService } from "./services/poolResolutionService";
-
-dotenv.config();
+import { PayoutService } from "./services/payoutService";
+import { StakeVerificationService } from "./services/stakeVerificationService";
+import { LiveUpdateService } from "./services/liveUpdateService";
+import { WebhookService } from "./services/webhookService";
+import { TransactionService } from "./services/transactionService";
 
 const app = express();
 const prisma = new PrismaClient();
@@ -14,7 +22,16 @@ const PORT = process.env.PORT || 3000;
 app.use(cors());
 app.use(express.json());
 
+app.use("/api/auth", authRoutes);
 app.use("/api/pools", poolRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/leaderboard", leaderboardRoutes);
+
+// GET /api/events - Live updates for every pool (Server-Sent Events)
+app.get("/api/events", (req, res) => {
+  LiveUpdateService.subscribe(res, null);
+});
 
 app.get("/", (req, res) => {
   res.json({ message: "Prognos MVP Backend API" });
@@ -27,30 +44,40 @@ app.get("/api/health", (req, res) => {
     message: "Prognos MVP Backend API",
     timestamp: new Date().toISOString(),
     services: {
-      poolResolution: poolResolutionStatus
+      poolResolution: poolResolutionStatus,
+      payouts: PayoutService.getStatus(),
+      stakeVerification: StakeVerificationService.getStatus(),
+      liveUpdates: LiveUpdateService.getStatus(),
+      webhooks: WebhookService.getStatus(),
+      chain: TransactionService.getStatus()
     }
   });
 });
 
-// Add manual trigger endpoint for testing
-app.post("/api/admin/resolve-expired", async (req, res) => {
-  try {
-    await PoolResolutionService.checkNow();
-    res.json({ message: "Manual pool resolution check triggered" });
-  } catch (error) {
-    console.error("Error triggering manual resolution:", error);
-    res.status(500).json({ error: "Failed to trigger manual resolution" });
-  }
-});
-
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   
   // Start the automatic pool resolution service
   PoolResolutionService.start();
+
+  // Start sending queued reward payouts
+  PayoutService.start();
+
+  // Start verifying pending stakes
+  StakeVerificationService.start();
+
+  // Start pushing pool updates to event stream subscribers
+  LiveUpdateService.start();
+
+  // Start delivering queued webhooks
+  WebhookService.start();
 });
 
 process.on("beforeExit", async () => {
   PoolResolutionService.stop();
+  PayoutService.stop();
+  StakeVerificationService.stop();
+  LiveUpdateService.stop();
+  WebhookService.stop();
   await prisma.$disconnect();
 });
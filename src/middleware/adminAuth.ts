@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import { AuthService } from "../services/authService";
+
+// Shared secret for ops tooling, sent as "Authorization: Bearer <key>"
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || "";
+
+// Comma-separated wallet addresses allowed to sign in as admins
+const ADMIN_WALLETS = (process.env.ADMIN_WALLETS || "")
+  .split(",")
+  .map((address) => address.trim())
+  .filter((address) => address.length > 0);
+
+function isValidApiKey(provided: string): boolean {
+  if (!ADMIN_API_KEY) return false;
+
+  const expected = Buffer.from(ADMIN_API_KEY);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Require admin credentials: either the admin API key as a bearer token, or a
+ * signed challenge from an allowlisted wallet passed in the x-wallet-address,
+ * x-wallet-nonce and x-wallet-signature headers.
+ * The authenticated admin is exposed as `res.locals.admin`.
+ */
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const authorization = req.header("authorization");
+    if (authorization?.startsWith("Bearer ")) {
+      if (!isValidApiKey(authorization.slice("Bearer ".length).trim())) {
+        return res.status(401).json({ error: "Invalid admin credentials" });
+      }
+      res.locals.admin = "api-key";
+      return next();
+    }
+
+    const walletAddress = req.header("x-wallet-address");
+    const nonce = req.header("x-wallet-nonce");
+    const signature = req.header("x-wallet-signature");
+
+    if (!walletAddress || !nonce || !signature) {
+      return res.status(401).json({ error: "Admin credentials required" });
+    }
+
+    if (!ADMIN_WALLETS.includes(walletAddress)) {
+      return res.status(403).json({ error: "Wallet is not an admin" });
+    }
+
+    const result = await AuthService.verifySignedChallenge({ walletAddress, nonce, signature });
+    if (!result.isValid) {
+      return res.status(401).json({ error: `Wallet verification failed: ${result.error}` });
+    }
+
+    res.locals.admin = walletAddress;
+    return next();
+  } catch (error) {
+    console.error("Error verifying admin credentials:", error);
+    return res.status(500).json({ error: "Failed to verify admin credentials" });
+  }
+}
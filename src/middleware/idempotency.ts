@@ -0,0 +1,115 @@
+import { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import db from "../db";
+import { AuthService } from "../services/authService";
+
+// Stored responses are replayed for this long
+const KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || "24");
+
+// A first request that hasn't answered after this long is treated as abandoned (e.g. the server restarted)
+const IN_PROGRESS_TIMEOUT_MS = 60 * 1000;
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Make a mutation safe to retry with an `Idempotency-Key` header.
+ * The first response for a key is stored and replayed for retries with the same body;
+ * the same key with a different body gets a 409. Requests without the header run as usual.
+ * Runs before requireWalletSignature, since a retry carries an already-used nonce, so it checks
+ * the signature itself (without consuming the nonce) before a key is scoped to the wallet.
+ * Auth failures and server errors are not stored, so the key can be retried.
+ */
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get("Idempotency-Key");
+  if (key === undefined) {
+    return next();
+  }
+
+  try {
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ error: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters` });
+    }
+
+    // Keys are scoped to the wallet, so only a wallet that signed the request may claim or replay one
+    const { walletAddress, nonce, signature } = req.body ?? {};
+    if (typeof walletAddress !== "string" || typeof nonce !== "string" || typeof signature !== "string") {
+      return res.status(401).json({ error: "Wallet signature required (walletAddress, nonce, signature)" });
+    }
+
+    const auth = await AuthService.verifyChallengeSignature({ walletAddress, nonce, signature });
+    if (!auth.isValid) {
+      return res.status(401).json({ error: `Wallet verification failed: ${auth.error}` });
+    }
+
+    const route = `${req.method} ${req.baseUrl}${req.path}`;
+    const requestHash = createHash("sha256").update(JSON.stringify(req.body ?? {})).digest("hex");
+    const where = { key_walletAddress_route: { key, walletAddress, route } };
+
+    const existing = await db.idempotencyKey.findUnique({ where });
+
+    if (existing && existing.expiresAt > new Date()) {
+      if (existing.requestHash !== requestHash) {
+        return res.status(409).json({ error: "Idempotency-Key was already used with a different request" });
+      }
+
+      if (existing.responseStatus !== null) {
+        res.set("Idempotent-Replayed", "true");
+        return res.status(existing.responseStatus).json(existing.responseBody);
+      }
+
+      if (Date.now() - existing.createdAt.getTime() < IN_PROGRESS_TIMEOUT_MS) {
+        return res.status(409).json({ error: "A request with this Idempotency-Key is still being processed" });
+      }
+    }
+
+    // Expired or abandoned: start over, and purge other expired keys while at it
+    await db.idempotencyKey.deleteMany({
+      where: { OR: [{ id: existing?.id ?? "" }, { expiresAt: { lt: new Date() } }] },
+    });
+
+    let record;
+    try {
+      record = await db.idempotencyKey.create({
+        data: {
+          key,
+          walletAddress,
+          route,
+          requestHash,
+          expiresAt: new Date(Date.now() + KEY_TTL_HOURS * 60 * 60 * 1000),
+        },
+      });
+    } catch (error) {
+      // A concurrent retry claimed the key first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        return res.status(409).json({ error: "A request with this Idempotency-Key is still being processed" });
+      }
+      throw error;
+    }
+
+    // Capture the handler's response so it can be stored once sent
+    let responseBody: Prisma.InputJsonValue | typeof Prisma.DbNull = Prisma.DbNull;
+    const json = res.json.bind(res);
+    res.json = (body: Prisma.InputJsonValue | null) => {
+      responseBody = body ?? Prisma.DbNull;
+      return json(body);
+    };
+
+    res.on("finish", () => {
+      const isStored = res.statusCode !== 401 && res.statusCode < 500;
+      const save = isStored
+        ? db.idempotencyKey.update({
+            where: { id: record.id },
+            data: { responseStatus: res.statusCode, responseBody },
+          })
+        : db.idempotencyKey.delete({ where: { id: record.id } });
+
+      save.catch(error => console.error("Error storing idempotent response:", error));
+    });
+
+    return next();
+  } catch (error) {
+    console.error("Error checking idempotency key:", error);
+    return res.status(500).json({ error: "Failed to check idempotency key" });
+  }
+}
@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from "express";
+import { AuthService } from "../services/authService";
+
+interface SignedBody {
+  walletAddress?: string;
+  nonce?: string;
+  signature?: string;
+}
+
+/**
+ * Require the request body to carry a signed challenge for `walletAddress`.
+ * Clients get a challenge from POST /api/auth/challenge and sign its message
+ * with the wallet key before calling the protected route.
+ */
+export async function requireWalletSignature(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { walletAddress, nonce, signature }: SignedBody = req.body || {};
+
+    if (!walletAddress || !nonce || !signature) {
+      return res.status(401).json({ error: "Wallet signature required (walletAddress, nonce, signature)" });
+    }
+
+    const result = await AuthService.verifySignedChallenge({ walletAddress, nonce, signature });
+
+    if (!result.isValid) {
+      return res.status(401).json({ error: `Wallet verification failed: ${result.error}` });
+    }
+
+    return next();
+  } catch (error) {
+    console.error("Error verifying wallet signature:", error);
+    return res.status(500).json({ error: "Failed to verify wallet signature" });
+  }
+}
@@ -0,0 +1,657 @@
+import { Router, Request, Response } from "express";
+import { Pool, Prisma } from "@prisma/client";
+import db from "../db";
+import { requireAdmin } from "../middleware/adminAuth";
+import { PoolResolutionService } from "../services/poolResolutionService";
+import { RewardService } from "../services/rewardService";
+import { FeeService } from "../services/feeService";
+import { PayoutService } from "../services/payoutService";
+import { PoolEvents } from "../services/poolEvents";
+import { PoolLifecycleService, PoolStatusError } from "../services/poolLifecycleService";
+import { isWebhookEventType, WEBHOOK_EVENT_TYPES, WebhookService } from "../services/webhookService";
+import { CATEGORICAL_SCORING_STRATEGY } from "../services/scoringStrategies";
+import { RewardValidation, ValidationError } from "../utils/validation";
+import { STX_ASSET_ID, STX_DECIMALS } from "../types/asset";
+import { getOutcomeOptions } from "../types/pool";
+
+const router = Router();
+
+router.use(requireAdmin);
+
+interface PoolBody {
+  title?: string;
+  description?: string;
+  tag?: string;
+  deadline?: string;
+  image?: string | null;
+  resolutionMode?: string;
+  oracleAddress?: string | null;
+  scoringStrategy?: string;
+  scoringParams?: Record<string, any> | null;
+  protocolFeeBps?: number | null;
+  outcomeOptions?: string[] | null;
+  stakeAsset?: string; // "STX" (default) or a SIP-010 asset identifier
+  stakeAssetDecimals?: number;
+  stakeAssetSymbol?: string;
+  draft?: boolean; // Create only: keep the pool hidden until it is published
+}
+
+interface WebhookBody {
+  url?: string;
+  eventTypes?: string[];
+  description?: string | null;
+  active?: boolean;
+}
+
+interface OutcomeBody {
+  outcomeValue?: number;
+  winningOption?: string; // Categorical pools only
+}
+
+interface CancelBody {
+  reason?: string;
+}
+
+interface CorrectionBody extends OutcomeBody {
+  reason?: string;
+}
+
+interface SettleDebtBody {
+  note?: string;
+}
+
+/**
+ * Normalize admin-supplied pool fields the same way scripts/createPool.ts does
+ */
+function buildPoolData(body: PoolBody) {
+  const stakeAsset = RewardValidation.sanitizeString(body.stakeAsset) || STX_ASSET_ID;
+  const isStx = stakeAsset === STX_ASSET_ID;
+
+  return {
+    title: RewardValidation.sanitizeString(body.title),
+    description: RewardValidation.sanitizeString(body.description),
+    tag: RewardValidation.sanitizeString(body.tag).toLowerCase(),
+    deadline: body.deadline,
+    image: RewardValidation.sanitizeString(body.image) || null,
+    resolutionMode: body.resolutionMode,
+    oracleAddress: body.resolutionMode === "oracle" ? RewardValidation.sanitizeString(body.oracleAddress) : null,
+    // Categorical pools are always scored with the categorical strategy
+    scoringStrategy: Array.isArray(body.outcomeOptions) ? CATEGORICAL_SCORING_STRATEGY : body.scoringStrategy,
+    scoringParams: body.scoringParams ?? undefined,
+    protocolFeeBps: body.protocolFeeBps ?? null,
+    outcomeOptions: Array.isArray(body.outcomeOptions)
+      ? body.outcomeOptions.map(option => RewardValidation.sanitizeString(option))
+      : body.outcomeOptions ?? null,
+    stakeAsset,
+    stakeAssetDecimals: body.stakeAssetDecimals ?? (isStx ? STX_DECIMALS : undefined),
+    stakeAssetSymbol: RewardValidation.sanitizeString(body.stakeAssetSymbol) || (isStx ? "STX" : ""),
+  };
+}
+
+/**
+ * Check and normalize an admin-supplied webhook endpoint
+ * @throws ValidationError if the URL or event types are invalid
+ */
+function buildWebhookData(body: WebhookBody) {
+  let url: URL;
+  try {
+    url = new URL(String(body.url));
+  } catch {
+    throw new ValidationError("Webhook URL is invalid");
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new ValidationError("Webhook URL must use http or https");
+  }
+
+  const eventTypes = body.eventTypes ?? [];
+  if (!Array.isArray(eventTypes) || !eventTypes.every(isWebhookEventType)) {
+    throw new ValidationError(`Event types must be a list of: ${WEBHOOK_EVENT_TYPES.join(", ")}`);
+  }
+
+  return {
+    url: url.toString(),
+    eventTypes,
+    description: RewardValidation.sanitizeString(body.description) || null,
+    active: body.active ?? true,
+  };
+}
+
+// Secrets are only shown when an endpoint is created
+const webhookSelect = {
+  id: true,
+  url: true,
+  eventTypes: true,
+  description: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * Tell live subscribers and webhook endpoints about a newly opened pool
+ */
+async function announcePool(pool: Pool): Promise<void> {
+  PoolEvents.publish("pool.created", pool.id);
+  await WebhookService.emit("pool.created", {
+    poolId: pool.id,
+    title: pool.title,
+    description: pool.description,
+    tag: pool.tag,
+    deadline: pool.deadline,
+    resolutionMode: pool.resolutionMode,
+    scoringStrategy: pool.scoringStrategy,
+    outcomeOptions: pool.outcomeOptions,
+    stakeAsset: pool.stakeAsset,
+    stakeAssetSymbol: pool.stakeAssetSymbol,
+  });
+}
+
+/**
+ * A pool can only be edited or deleted while nobody has money in it
+ */
+async function hasStakes(poolId: string): Promise<boolean> {
+  const [stakeCount, stakedPredictionCount] = await Promise.all([
+    db.stake.count({ where: { poolId, status: { not: "failed" } } }),
+    db.prediction.count({ where: { poolId, stakeAmount: { gt: 0 } } }),
+  ]);
+  return stakeCount > 0 || stakedPredictionCount > 0;
+}
+
+// GET /api/admin/pools - List all pools with prediction counts
+router.get("/pools", async (req: Request, res: Response) => {
+  try {
+    const pools = await db.pool.findMany({
+      include: {
+        _count: {
+          select: { predictions: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res.json(pools);
+  } catch (error) {
+    console.error("Error listing pools:", error);
+    return res.status(500).json({ error: "Failed to list pools" });
+  }
+});
+
+// POST /api/admin/pools - Create a pool
+router.post("/pools", async (req: Request, res: Response) => {
+  try {
+    const body: PoolBody = req.body || {};
+    const data = buildPoolData(body);
+    RewardValidation.validatePoolCreation(data);
+
+    const pool = await db.pool.create({
+      data: {
+        ...data,
+        deadline: new Date(data.deadline!),
+        outcomeOptions: data.outcomeOptions ?? Prisma.DbNull,
+        totalStake: 0,
+        // Drafts are announced when they are published
+        ...(body.draft === true ? { status: "draft", openedAt: null } : {}),
+      },
+    });
+
+    if (pool.status === "open") {
+      await announcePool(pool);
+    }
+    console.log(`🆕 Pool created by ${res.locals.admin}: ${pool.title} (${pool.id}, ${pool.status})`);
+    return res.status(201).json(pool);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error creating pool:", error);
+    return res.status(500).json({ error: "Failed to create pool" });
+  }
+});
+
+// PATCH /api/admin/pools/:id - Edit a pool before anyone has staked
+router.patch("/pools/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const pool = await db.pool.findUnique({ where: { id } });
+    if (!pool) {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    if (pool.status === "resolved" || pool.status === "cancelled") {
+      return res.status(409).json({ error: `${pool.status === "resolved" ? "Resolved" : "Cancelled"} pools cannot be edited` });
+    }
+
+    if (await hasStakes(id)) {
+      return res.status(409).json({ error: "Pools with stakes cannot be edited" });
+    }
+
+    const changes: PoolBody = req.body || {};
+    const data = buildPoolData({
+      title: pool.title,
+      description: pool.description,
+      tag: pool.tag,
+      deadline: pool.deadline.toISOString(),
+      image: pool.image,
+      resolutionMode: pool.resolutionMode,
+      oracleAddress: pool.oracleAddress,
+      scoringStrategy: pool.scoringStrategy,
+      scoringParams: pool.scoringParams as Record<string, any> | null,
+      protocolFeeBps: pool.protocolFeeBps,
+      outcomeOptions: pool.outcomeOptions as string[] | null,
+      stakeAsset: pool.stakeAsset,
+      stakeAssetDecimals: pool.stakeAssetDecimals,
+      stakeAssetSymbol: pool.stakeAssetSymbol,
+      ...changes,
+    });
+    RewardValidation.validatePoolUpdate(data, { ...changes });
+
+    // Votes were cast on these options and this deadline, so they stay fixed once there are any
+    const movesDeadline = "deadline" in changes && new Date(data.deadline!).getTime() !== pool.deadline.getTime();
+    const changesOptions = "outcomeOptions" in changes
+      && JSON.stringify(data.outcomeOptions) !== JSON.stringify(pool.outcomeOptions);
+    if ((movesDeadline || changesOptions) && await db.prediction.count({ where: { poolId: id } }) > 0) {
+      return res.status(409).json({ error: "The deadline and outcome options cannot change once a pool has predictions" });
+    }
+
+    let updatedPool = await db.pool.update({
+      where: { id },
+      data: {
+        ...data,
+        deadline: new Date(data.deadline!),
+        outcomeOptions: data.outcomeOptions ?? Prisma.DbNull,
+      },
+    });
+
+    // Moving the deadline of a closed pool into the future reopens it
+    const isClosed = updatedPool.status === "locked" || updatedPool.status === "awaiting-outcome";
+    if (isClosed && updatedPool.deadline > new Date()) {
+      await PoolLifecycleService.transition(id, "open");
+      updatedPool = await db.pool.findUniqueOrThrow({ where: { id } });
+    }
+
+    console.log(`✏️ Pool edited by ${res.locals.admin}: ${updatedPool.title} (${id})`);
+    return res.json(updatedPool);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error editing pool:", error);
+    return res.status(500).json({ error: "Failed to edit pool" });
+  }
+});
+
+// POST /api/admin/pools/:id/publish - Open a draft pool to votes and stakes
+router.post("/pools/:id/publish", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const pool = await db.pool.findUnique({ where: { id } });
+    if (!pool) {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    if (pool.status !== "draft") {
+      return res.status(409).json({ error: `Pool is ${pool.status}, only drafts can be published` });
+    }
+
+    if (pool.deadline <= new Date()) {
+      return res.status(400).json({ error: "Move the deadline into the future before publishing" });
+    }
+
+    await PoolLifecycleService.transition(id, "open");
+    const publishedPool = await db.pool.findUniqueOrThrow({ where: { id } });
+    await announcePool(publishedPool);
+
+    console.log(`📣 Pool published by ${res.locals.admin}: ${publishedPool.title} (${id})`);
+    return res.json(publishedPool);
+  } catch (error) {
+    if (error instanceof PoolStatusError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("Error publishing pool:", error);
+    return res.status(500).json({ error: "Failed to publish pool" });
+  }
+});
+
+// DELETE /api/admin/pools/:id - Delete a pool nobody has staked on
+router.delete("/pools/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const pool = await db.pool.findUnique({ where: { id } });
+    if (!pool) {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    // Resolutions, fees and payouts are records of money that moved, so they are never deleted
+    if (pool.status === "resolved") {
+      return res.status(409).json({ error: "Resolved pools cannot be deleted" });
+    }
+
+    if (await hasStakes(id)) {
+      return res.status(409).json({ error: "Pools with stakes cannot be deleted" });
+    }
+
+    const payouts = await db.payout.count({
+      where: { OR: [{ prediction: { poolId: id } }, { stake: { poolId: id } }] },
+    });
+    if (payouts > 0) {
+      return res.status(409).json({ error: "Pools with payouts cannot be deleted" });
+    }
+
+    await db.pool.delete({ where: { id } });
+
+    console.log(`🗑️ Pool deleted by ${res.locals.admin}: ${pool.title} (${id})`);
+    return res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting pool:", error);
+    return res.status(500).json({ error: "Failed to delete pool" });
+  }
+});
+
+// POST /api/admin/pools/:id/outcome - Submit the outcome of an expired pool
+router.post("/pools/:id/outcome", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { outcomeValue, winningOption }: OutcomeBody = req.body || {};
+
+    await PoolResolutionService.submitOutcome(id, { outcomeValue, winningOption }, res.locals.admin);
+
+    const pool = await db.pool.findUnique({ where: { id } });
+    return res.json(pool);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error submitting outcome:", error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : "Failed to submit outcome" });
+  }
+});
+
+// POST /api/admin/pools/:id/correct-outcome - Correct a resolved pool's outcome and re-resolve it
+router.post("/pools/:id/correct-outcome", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { outcomeValue, winningOption, reason }: CorrectionBody = req.body || {};
+
+    const pool = await db.pool.findUnique({ where: { id } });
+    if (!pool) {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    let correctedValue: number;
+    if (getOutcomeOptions(pool)) {
+      correctedValue = RewardValidation.validateWinningOption(pool, winningOption);
+    } else {
+      RewardValidation.validateOutcomeValue(outcomeValue);
+      correctedValue = Number(outcomeValue);
+    }
+
+    const correction = await RewardService.correctOutcome(
+      id,
+      correctedValue,
+      RewardValidation.sanitizeString(reason),
+      res.locals.admin
+    );
+    return res.json(correction);
+  } catch (error) {
+    if (error instanceof PoolStatusError) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error correcting outcome:", error);
+    return res.status(500).json({ error: "Failed to correct outcome" });
+  }
+});
+
+// POST /api/admin/pools/:id/cancel - Void a pool and refund every staker
+router.post("/pools/:id/cancel", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reason }: CancelBody = req.body || {};
+
+    const pool = await db.pool.findUnique({ where: { id } });
+    if (!pool) {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    await RewardService.cancelPool(id, RewardValidation.sanitizeString(reason), res.locals.admin);
+
+    const cancelledPool = await db.pool.findUnique({ where: { id } });
+    return res.json(cancelledPool);
+  } catch (error) {
+    if (error instanceof PoolStatusError) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error cancelling pool:", error);
+    return res.status(500).json({ error: "Failed to cancel pool" });
+  }
+});
+
+// GET /api/admin/fees - Protocol fees collected, per pool and per tag
+router.get("/fees", async (req: Request, res: Response) => {
+  try {
+    const { tag, from, to } = req.query;
+
+    const fromDate = typeof from === "string" ? new Date(from) : undefined;
+    const toDate = typeof to === "string" ? new Date(to) : undefined;
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ error: "Invalid date range" });
+    }
+
+    const report = await FeeService.getFeeReport({
+      tag: typeof tag === "string" ? tag.toLowerCase() : undefined,
+      from: fromDate,
+      to: toDate,
+    });
+
+    return res.json(report);
+  } catch (error) {
+    console.error("Error fetching fee report:", error);
+    return res.status(500).json({ error: "Failed to fetch fee report" });
+  }
+});
+
+// GET /api/admin/payouts - List payouts, optionally by status
+router.get("/payouts", async (req: Request, res: Response) => {
+  try {
+    const { status } = req.query;
+
+    const payouts = await db.payout.findMany({
+      where: typeof status === "string" ? { status } : undefined,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res.json(payouts);
+  } catch (error) {
+    console.error("Error listing payouts:", error);
+    return res.status(500).json({ error: "Failed to list payouts" });
+  }
+});
+
+// POST /api/admin/payouts/:id/retry - Requeue a failed payout
+router.post("/payouts/:id/retry", async (req: Request, res: Response) => {
+  try {
+    const payout = await PayoutService.retryPayout(req.params.id);
+    return res.json(payout);
+  } catch (error) {
+    console.error("Error retrying payout:", error);
+    return res.status(400).json({ error: error instanceof Error ? error.message : "Failed to retry payout" });
+  }
+});
+
+// GET /api/admin/debts - List reward debts from outcome corrections, optionally by status or wallet
+router.get("/debts", async (req: Request, res: Response) => {
+  try {
+    const { status, walletAddress } = req.query;
+
+    const debts = await db.rewardDebt.findMany({
+      where: {
+        status: typeof status === "string" ? status : undefined,
+        userWalletAddress: typeof walletAddress === "string" ? walletAddress : undefined,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res.json(debts);
+  } catch (error) {
+    console.error("Error listing debts:", error);
+    return res.status(500).json({ error: "Failed to list debts" });
+  }
+});
+
+// POST /api/admin/debts/:id/settle - Mark a reward debt as settled
+router.post("/debts/:id/settle", async (req: Request, res: Response) => {
+  try {
+    const { note }: SettleDebtBody = req.body || {};
+
+    const debt = await RewardService.settleDebt(req.params.id, res.locals.admin, RewardValidation.sanitizeString(note));
+    return res.json(debt);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error settling debt:", error);
+    return res.status(500).json({ error: "Failed to settle debt" });
+  }
+});
+
+// GET /api/admin/webhooks - List webhook endpoints
+router.get("/webhooks", async (req: Request, res: Response) => {
+  try {
+    const endpoints = await db.webhookEndpoint.findMany({
+      select: webhookSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res.json(endpoints);
+  } catch (error) {
+    console.error("Error listing webhooks:", error);
+    return res.status(500).json({ error: "Failed to list webhooks" });
+  }
+});
+
+// POST /api/admin/webhooks - Register a webhook endpoint; the response holds its signing secret
+router.post("/webhooks", async (req: Request, res: Response) => {
+  try {
+    const data = buildWebhookData(req.body || {});
+
+    const endpoint = await db.webhookEndpoint.create({
+      data: { ...data, secret: WebhookService.generateSecret() },
+    });
+
+    console.log(`🪝 Webhook registered by ${res.locals.admin}: ${endpoint.url} (${endpoint.id})`);
+    return res.status(201).json(endpoint);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error registering webhook:", error);
+    return res.status(500).json({ error: "Failed to register webhook" });
+  }
+});
+
+// PATCH /api/admin/webhooks/:id - Change a webhook's URL, event types or active flag
+router.patch("/webhooks/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const endpoint = await db.webhookEndpoint.findUnique({ where: { id } });
+    if (!endpoint) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const data = buildWebhookData({
+      url: endpoint.url,
+      eventTypes: endpoint.eventTypes as string[],
+      description: endpoint.description,
+      active: endpoint.active,
+      ...req.body,
+    });
+
+    const updatedEndpoint = await db.webhookEndpoint.update({
+      where: { id },
+      data,
+      select: webhookSelect,
+    });
+
+    return res.json(updatedEndpoint);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error editing webhook:", error);
+    return res.status(500).json({ error: "Failed to edit webhook" });
+  }
+});
+
+// DELETE /api/admin/webhooks/:id - Remove a webhook and its delivery log
+router.delete("/webhooks/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const endpoint = await db.webhookEndpoint.findUnique({ where: { id } });
+    if (!endpoint) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    await db.webhookEndpoint.delete({ where: { id } });
+    return res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    return res.status(500).json({ error: "Failed to delete webhook" });
+  }
+});
+
+// GET /api/admin/webhooks/:id/deliveries - Delivery log of a webhook, optionally by status
+router.get("/webhooks/:id/deliveries", async (req: Request, res: Response) => {
+  try {
+    const { status } = req.query;
+
+    const deliveries = await db.webhookDelivery.findMany({
+      where: {
+        endpointId: req.params.id,
+        status: typeof status === "string" ? status : undefined,
+      },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    });
+
+    return res.json(deliveries);
+  } catch (error) {
+    console.error("Error listing webhook deliveries:", error);
+    return res.status(500).json({ error: "Failed to list webhook deliveries" });
+  }
+});
+
+// POST /api/admin/webhooks/deliveries/:id/replay - Send a delivery again
+router.post("/webhooks/deliveries/:id/replay", async (req: Request, res: Response) => {
+  try {
+    const delivery = await WebhookService.replayDelivery(req.params.id);
+    return res.json(delivery);
+  } catch (error) {
+    console.error("Error replaying webhook delivery:", error);
+    return res.status(400).json({ error: error instanceof Error ? error.message : "Failed to replay delivery" });
+  }
+});
+
+// POST /api/admin/resolve-expired - Manually trigger a resolution check
+router.post("/resolve-expired", async (req: Request, res: Response) => {
+  try {
+    await PoolResolutionService.checkNow();
+    return res.json({ message: "Manual pool resolution check triggered" });
+  } catch (error) {
+    console.error("Error triggering manual resolution:", error);
+    return res.status(500).json({ error: "Failed to trigger manual resolution" });
+  }
+});
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router, Request, Response } from "express";
+import { AuthService } from "../services/authService";
+import { RewardValidation, ValidationError } from "../utils/validation";
+
+const router = Router();
+
+interface ChallengeBody {
+  walletAddress: string;
+}
+
+// POST /api/auth/challenge - Issue a message for the wallet to sign
+router.post("/challenge", async (req: Request, res: Response) => {
+  try {
+    const { walletAddress }: ChallengeBody = req.body;
+
+    RewardValidation.validateWalletAddress(walletAddress);
+
+    const challenge = await AuthService.createChallenge(walletAddress.trim());
+    return res.json(challenge);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error creating auth challenge:", error);
+    return res.status(500).json({ error: "Failed to create auth challenge" });
+  }
+});
+
+export default router;
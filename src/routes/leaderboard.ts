@@ -0,0 +1,53 @@
+import { Router, Request, Response } from "express";
+import { LeaderboardService } from "../services/leaderboardService";
+import { ValidationError } from "../utils/validation";
+
+const router = Router();
+
+/**
+ * Read the shared leaderboard query parameters
+ */
+function parseLeaderboardQuery(query: Request["query"]) {
+  const { window, sort, tag, minPredictions, limit } = query;
+
+  return {
+    window: typeof window === "string" ? window : undefined,
+    sort: typeof sort === "string" ? sort : undefined,
+    tag: typeof tag === "string" && tag.length > 0 ? tag : undefined,
+    minPredictions: minPredictions !== undefined ? Number(minPredictions) : undefined,
+    limit: limit !== undefined ? Number(limit) : undefined,
+  };
+}
+
+// GET /api/leaderboard - Rank wallets by accuracy, error, profit or activity
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const leaderboard = await LeaderboardService.getLeaderboard(parseLeaderboardQuery(req.query));
+    return res.json(leaderboard);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error fetching leaderboard:", error);
+    return res.status(500).json({ error: "Failed to fetch leaderboard" });
+  }
+});
+
+// GET /api/leaderboard/tags/:tag - Same ranking, limited to one pool tag
+router.get("/tags/:tag", async (req: Request, res: Response) => {
+  try {
+    const leaderboard = await LeaderboardService.getLeaderboard({
+      ...parseLeaderboardQuery(req.query),
+      tag: req.params.tag,
+    });
+    return res.json(leaderboard);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error fetching tag leaderboard:", error);
+    return res.status(500).json({ error: "Failed to fetch leaderboard" });
+  }
+});
+
+export default router;
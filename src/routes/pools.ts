@@ -1,42 +1,135 @@
 import { Router, Request, Response } from "express";
+import { Prisma } from "@prisma/client";
 import db from "../db";
-import { RewardService } from "../services/rewardService";
-import { TransactionService } from "../services/transactionService";
+import { RewardService, StakePreviewRequest } from "../services/rewardService";
+import { PLATFORM_ADDRESS, TransactionService } from "../services/transactionService";
+import { PoolResolutionService } from "../services/poolResolutionService";
+import { PayoutService } from "../services/payoutService";
+import { StakeVerificationService } from "../services/stakeVerificationService";
+import { PoolStatsService } from "../services/poolStatsService";
+import { DistributionService, parseDistributionQuery } from "../services/distributionService";
+import { PoolEvents } from "../services/poolEvents";
+import { LiveUpdateService } from "../services/liveUpdateService";
+import { RewardValidation, ValidationError } from "../utils/validation";
+import { POOL_STATUSES, PoolStatus } from "../types/pool";
+import { getStakeAsset } from "../types/asset";
+import { parsePageQuery, pageArgs, toPage } from "../utils/pagination";
+import { requireWalletSignature } from "../middleware/walletAuth";
+import { idempotent } from "../middleware/idempotency";
 
 const router = Router();
 
-interface VoteBody {
+// Every mutation carries a signed challenge from POST /api/auth/challenge
+interface SignedBody {
   walletAddress: string;
-  predictionValue: "yes" | "no";
+  nonce: string;
+  signature: string;
 }
 
-interface StakeBody {
-  walletAddress: string;
+interface VoteBody extends SignedBody {
+  predictionValue: string; // "yes", "no", a 0-100 number, or one of a categorical pool's options
+}
+
+interface StakeBody extends SignedBody {
   predictionValue: string;
   stakeAmount: number;
   transactionId?: string; // STX transaction ID for verification
 }
 
-interface ClaimBody {
-  walletAddress: string;
+interface ClaimBody extends SignedBody {}
+
+interface OutcomeBody extends SignedBody {
+  outcomeValue?: number;
+  winningOption?: string; // Categorical pools only
+}
+
+// Drafts are only visible through the admin API
+type ListedStatus = Exclude<PoolStatus, "draft">;
+const LISTED_STATUSES = POOL_STATUSES.filter((status): status is ListedStatus => status !== "draft");
+
+function isListedStatus(value: unknown): value is ListedStatus {
+  return LISTED_STATUSES.some(status => status === value);
+}
+
+// ?sort= value → Prisma ordering; the ID tiebreak keeps cursors stable
+const POOL_SORTS: Record<string, Prisma.PoolOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: "desc" }, { id: "desc" }],
+  "ending-soon": [{ deadline: "asc" }, { id: "asc" }],
+  "most-staked": [{ totalStake: "desc" }, { id: "desc" }],
+};
+
+/**
+ * Build the filter and ordering for a pool list from its query string
+ * Filters: tag, status (open, locked, awaiting-outcome, resolved, cancelled), deadlineFrom, deadlineTo, minStake
+ * @throws ValidationError on an unknown status or sort, or a malformed date or stake
+ */
+function buildPoolListQuery(query: Request["query"]) {
+  const { tag, status, deadlineFrom, deadlineTo, minStake, sort = "newest" } = query;
+  const where: Prisma.PoolWhereInput[] = [];
+
+  if (typeof tag === "string" && tag.length > 0) {
+    where.push({ tag: tag.toLowerCase() });
+  }
+
+  if (status !== undefined) {
+    if (!isListedStatus(status)) {
+      throw new ValidationError(`Status must be one of: ${LISTED_STATUSES.join(", ")}`);
+    }
+    where.push({ status });
+  } else {
+    where.push({ status: { not: "draft" } });
+  }
+
+  for (const [value, key] of [[deadlineFrom, "gte"], [deadlineTo, "lte"]] as const) {
+    if (value === undefined) continue;
+
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) {
+      throw new ValidationError("Invalid deadline range");
+    }
+    where.push({ deadline: { [key]: date } });
+  }
+
+  if (minStake !== undefined) {
+    const amount = Number(minStake);
+    if (isNaN(amount)) {
+      throw new ValidationError("Minimum stake must be a number");
+    }
+    where.push({ totalStake: { gte: amount } });
+  }
+
+  if (typeof sort !== "string" || !POOL_SORTS[sort]) {
+    throw new ValidationError(`Sort must be one of: ${Object.keys(POOL_SORTS).join(", ")}`);
+  }
+
+  return { where, orderBy: POOL_SORTS[sort] };
 }
 
+/**
+ * Fetch one page of pools with per-pool aggregates instead of their predictions
+ */
+async function listPools(query: Request["query"], extraWhere?: Prisma.PoolWhereInput) {
+  const page = parsePageQuery(query);
+  const { where, orderBy } = buildPoolListQuery(query);
+
+  const rows = await db.pool.findMany({
+    where: { AND: extraWhere ? [...where, extraWhere] : where },
+    orderBy,
+    ...pageArgs(page),
+  });
+
+  const { items, nextCursor } = toPage(rows, page);
+  return { pools: await PoolStatsService.withAggregates(items), nextCursor };
+}
 
-// GET /api/pools - View all pools
+// GET /api/pools - List pools, paginated and filterable
 router.get("/", async (req: Request, res: Response) => {
   try {
-    const pools = await db.pool.findMany({
-      include: {
-        predictions: true,
-        _count: {
-          select: { predictions: true },
-        },
-      },
-      orderBy: { createdAt: "desc" },
-    });
-
-    return res.json(pools);
+    return res.json(await listPools(req.query));
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error("Error fetching pools:", error);
     return res.status(500).json({ error: "Failed to fetch pools" });
   }
@@ -51,26 +144,20 @@ router.get("/feeds/:walletAddress", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Wallet address is required" });
     }
 
-    // Get all pools where user hasn't made any predictions
-    const unvotedPools = await db.pool.findMany({
-      where: {
-        predictions: {
-          none: {
-            userWalletAddress: walletAddress,
-          },
-        },
-      },
-      include: {
-        predictions: true,
-        _count: {
-          select: { predictions: true },
+    // Only pools where user hasn't made any predictions
+    const feed = await listPools(req.query, {
+      predictions: {
+        none: {
+          userWalletAddress: walletAddress,
         },
       },
-      orderBy: { createdAt: "desc" },
     });
 
-    return res.json(unvotedPools);
+    return res.json(feed);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error("Error fetching feed pools:", error);
     return res.status(500).json({ error: "Failed to fetch feed pools" });
   }
@@ -80,43 +167,107 @@ router.get("/feeds/:walletAddress", async (req: Request, res: Response) => {
 router.get("/:id", async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const pool = await db.pool.findUnique({
-      where: { id },
-      include: {
-        predictions: true,
-        _count: {
-          select: { predictions: true },
-        },
-      },
-    });
+    const pool = await db.pool.findUnique({ where: { id } });
 
-    if (!pool) {
+    if (!pool || pool.status === "draft") {
       return res.status(404).json({ error: "Pool not found" });
     }
 
-    return res.json(pool);
+    const [poolWithStats] = await PoolStatsService.withAggregates([pool]);
+    return res.json(poolWithStats);
   } catch (error) {
     console.error("Error fetching pool:", error);
     return res.status(500).json({ error: "Failed to fetch pool" });
   }
 });
 
+// GET /api/pools/:id/predictions - A pool's predictions, paginated, newest first
+router.get("/:id/predictions", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const page = parsePageQuery(req.query);
+
+    const pool = await db.pool.findUnique({ where: { id } });
+    if (!pool || pool.status === "draft") {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    const rows = await db.prediction.findMany({
+      where: { poolId: id },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...pageArgs(page),
+    });
+
+    const { items, nextCursor } = toPage(rows, page);
+    return res.json({ predictions: items, nextCursor });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error fetching predictions:", error);
+    return res.status(500).json({ error: "Failed to fetch predictions" });
+  }
+});
+
+// GET /api/pools/:id/distribution - What the crowd thinks: histograms, split, median, estimate and timeline
+router.get("/:id/distribution", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const query = parseDistributionQuery(req.query);
+
+    const distribution = await DistributionService.getDistribution(id, query);
+    if (!distribution || distribution.status === "draft") {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    return res.json(distribution);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error fetching pool distribution:", error);
+    return res.status(500).json({ error: "Failed to fetch pool distribution" });
+  }
+});
+
+// GET /api/pools/:id/events - Live updates for one pool (Server-Sent Events)
+router.get("/:id/events", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const pool = await db.pool.findUnique({ where: { id } });
+    if (!pool || pool.status === "draft") {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    return await LiveUpdateService.subscribe(res, id);
+  } catch (error) {
+    console.error("Error opening pool event stream:", error);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: "Failed to open event stream" });
+    }
+    return res.end();
+  }
+});
+
 // POST /api/pools/:id/vote - User votes on pool (without money)
-router.post("/:id/vote", async (req: Request, res: Response) => {
+router.post("/:id/vote", idempotent, requireWalletSignature, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { walletAddress, predictionValue }: VoteBody = req.body;
+    const { walletAddress }: VoteBody = req.body;
 
-    if (!walletAddress || !predictionValue) {
+    if (!walletAddress || !req.body.predictionValue) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
     // Check if pool exists
     const pool = await db.pool.findUnique({ where: { id } });
-    if (!pool) {
+    if (!pool || pool.status === "draft") {
       return res.status(404).json({ error: "Pool not found" });
     }
 
+    const predictionValue = RewardValidation.validatePoolPrediction(pool, req.body.predictionValue);
+
     // Check if user already has a prediction for this pool
     const existingPrediction = await db.prediction.findFirst({
       where: {
@@ -125,169 +276,254 @@ router.post("/:id/vote", async (req: Request, res: Response) => {
       },
     });
 
+    // Only open pools take votes
+    RewardValidation.validatePredictionAction(pool, existingPrediction, "vote");
+
     if (existingPrediction) {
       // Update existing prediction
       const prediction = await db.prediction.update({
         where: { id: existingPrediction.id },
         data: { predictionValue },
       });
+      PoolEvents.publish("pool.vote", id);
       return res.json(prediction);
     } else {
-      // Create user if doesn't exist
-      await db.user.upsert({
-        where: { walletAddress },
-        update: {},
-        create: { walletAddress },
-      });
-
-      // Create new prediction
-      const prediction = await db.prediction.create({
-        data: {
-          poolId: id,
-          userWalletAddress: walletAddress,
-          predictionValue,
-          stakeAmount: 0,
-        },
-      });
+      // Create user if doesn't exist, along with the new prediction
+      const [, prediction] = await db.$transaction([
+        db.user.upsert({
+          where: { walletAddress },
+          update: {},
+          create: { walletAddress },
+        }),
+        db.prediction.create({
+          data: {
+            poolId: id,
+            userWalletAddress: walletAddress,
+            predictionValue,
+            stakeAmount: 0,
+          },
+        }),
+      ]);
+      PoolEvents.publish("pool.vote", id);
       return res.json(prediction);
     }
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error("Error creating vote:", error);
     return res.status(500).json({ error: "Failed to create vote" });
   }
 });
 
-// POST /api/pools/:id/stake - User stakes on pool with transaction verification
-router.post("/:id/stake", async (req: Request, res: Response) => {
+// GET /api/pools/:id/stake-memo?predictionValue= - Memo and recipient for a stake transfer
+router.get("/:id/stake-memo", async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { walletAddress, predictionValue, stakeAmount, transactionId }: StakeBody = req.body;
 
-    if (!walletAddress || !predictionValue || !stakeAmount) {
-      return res.status(400).json({ error: "Missing required fields" });
+    const pool = await db.pool.findUnique({ where: { id } });
+    if (!pool || pool.status === "draft") {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    const predictionValue = RewardValidation.validatePoolPrediction(pool, req.query.predictionValue);
+
+    const asset = getStakeAsset(pool);
+
+    return res.json({
+      recipient: PLATFORM_ADDRESS,
+      memo: TransactionService.buildStakeMemo({ poolId: id, predictionValue }),
+      predictionValue,
+      asset: {
+        id: asset.id,
+        contractId: asset.contractId, // Call this contract's `transfer` for SIP-010 pools
+        decimals: asset.decimals,
+        symbol: asset.symbol,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error("Error building stake memo:", error);
+    return res.status(500).json({ error: "Failed to build stake memo" });
+  }
+});
 
-    if (stakeAmount <= 0) {
-      return res.status(400).json({ error: "Stake amount must be positive" });
+// POST /api/pools/:id/stake - User stakes on pool; the transaction is verified in the background
+router.post("/:id/stake", idempotent, requireWalletSignature, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { walletAddress, stakeAmount, transactionId }: StakeBody = req.body;
+
+    if (!walletAddress || !req.body.predictionValue || stakeAmount === undefined) {
+      return res.status(400).json({ error: "Missing required fields" });
     }
 
-    // Transaction verification is now required for stakes > 0
-    if (stakeAmount > 0 && !transactionId) {
+    // Must be a positive number within the per-stake maximum
+    RewardValidation.validateStakeAmount(stakeAmount);
+
+    // Transaction verification is required for stakes
+    if (!transactionId) {
       return res.status(400).json({ error: "Transaction ID required for stakes" });
     }
 
     // Simple transaction ID validation
-    if (transactionId && (typeof transactionId !== 'string' || transactionId.trim().length === 0)) {
+    if (typeof transactionId !== 'string' || transactionId.trim().length === 0) {
       return res.status(400).json({ error: "Invalid transaction ID format" });
     }
 
     // Check if pool exists
     const pool = await db.pool.findUnique({ where: { id } });
-    if (!pool) {
+    if (!pool || pool.status === "draft") {
       return res.status(404).json({ error: "Pool not found" });
     }
 
-    // Check if deadline has passed
-    if (new Date() > pool.deadline) {
-      return res.status(400).json({ error: "Pool deadline has passed" });
-    }
+    // Only open pools take stakes, up to the wallet's total stake limit
+    const walletPrediction = await db.prediction.findFirst({
+      where: { poolId: id, userWalletAddress: walletAddress },
+    });
+    RewardValidation.validatePredictionAction(pool, walletPrediction, "stake");
+
+    const predictionValue = RewardValidation.validatePoolPrediction(pool, req.body.predictionValue);
 
     // Check if transaction has already been used
-    if (transactionId) {
-      const existingTransaction = await db.prediction.findFirst({
-        where: { transactionId },
+    const [existingStake, existingPrediction] = await Promise.all([
+      db.stake.findUnique({ where: { transactionId } }),
+      db.prediction.findFirst({ where: { transactionId } }),
+    ]);
+
+    if (existingStake || existingPrediction) {
+      return res.status(400).json({
+        error: "Transaction has already been used for another stake",
+        code: "TX_ALREADY_USED",
       });
+    }
 
-      if (existingTransaction) {
-        return res.status(400).json({ error: "Transaction has already been used for another stake" });
-      }
-    }
-
-    // Verify transaction on-chain
-    let transactionVerified = false;
-    if (transactionId && stakeAmount > 0) {
-      try {
-        const verification = await TransactionService.verifyStakeTransaction(
-          transactionId,
-          walletAddress,
-          stakeAmount,
-          30 // 30 minutes max age
-        );
-
-        if (!verification.isValid) {
-          return res.status(400).json({ 
-            error: `Transaction verification failed: ${verification.error}`,
-            transactionData: verification.transactionData
-          });
-        }
-
-        transactionVerified = true;
-      } catch (error) {
-        return res.status(500).json({ 
-          error: "Transaction verification failed", 
-          details: error instanceof Error ? error.message : "Unknown error"
-        });
-      }
-    }
-
-    // Create user if doesn't exist
-    await db.user.upsert({
-      where: { walletAddress },
-      update: {},
-      create: { walletAddress },
-    });
-
-    // Check if user already has a prediction for this pool
-    const existingPrediction = await db.prediction.findFirst({
-      where: {
-        poolId: id,
-        userWalletAddress: walletAddress,
-      },
-    });
-
-    let prediction;
-    if (existingPrediction) {
-      // Update existing prediction with stake
-      prediction = await db.prediction.update({
-        where: { id: existingPrediction.id },
-        data: {
-          predictionValue,
-          stakeAmount: existingPrediction.stakeAmount + stakeAmount,
-          transactionId: transactionId || existingPrediction.transactionId,
-          transactionVerified: transactionVerified || existingPrediction.transactionVerified,
-        },
+    // Reject transactions that are already known to be wrong; unconfirmed ones are checked in the background
+    const verification = await TransactionService.verifyStakeTransaction(
+      transactionId,
+      walletAddress,
+      stakeAmount,
+      { poolId: id, predictionValue, asset: getStakeAsset(pool) },
+      30 // 30 minutes max age
+    );
+
+    if (!verification.isValid && !verification.isPending) {
+      return res.status(400).json({ 
+        error: `Transaction verification failed: ${verification.error}`,
+        code: verification.code,
+        transactionData: verification.transactionData
       });
-    } else {
-      // Create new prediction with stake
-      prediction = await db.prediction.create({
+    }
+
+    // Create the user if needed and record the stake as pending, together;
+    // the stake only counts toward the pool once verified (see StakeVerificationService)
+    const [, stake] = await db.$transaction([
+      db.user.upsert({
+        where: { walletAddress },
+        update: {},
+        create: { walletAddress },
+      }),
+      db.stake.create({
         data: {
           poolId: id,
           userWalletAddress: walletAddress,
           predictionValue,
-          stakeAmount,
-          transactionId,
-          transactionVerified,
+          amount: stakeAmount,
+          transactionId: transactionId,
         },
-      });
+      }),
+    ]);
+
+    // Promote right away if the transaction already has enough confirmations
+    const status = verification.isValid
+      ? await StakeVerificationService.verifyStake(stake.id)
+      : stake.status;
+
+    return res.status(202).json({
+      ...stake,
+      status,
+      message: status === "verified"
+        ? "Stake verified and recorded successfully"
+        : "Stake recorded, waiting for on-chain confirmation",
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error("Error creating stake:", error);
+    return res.status(500).json({ error: "Failed to create stake" });
+  }
+});
 
-    // Update pool total stake
-    await db.pool.update({
-      where: { id },
-      data: { totalStake: { increment: stakeAmount } },
-    });
+// POST /api/pools/:id/reward-preview - What a prospective stake would win; nothing is written
+router.post("/:id/reward-preview", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { predictionValue, stakeAmount, outcomes, walletAddress }: StakePreviewRequest = req.body;
 
-    return res.json({
-      ...prediction,
-      message: transactionVerified ? "Stake verified and recorded successfully" : "Stake recorded (verification pending)"
+    const preview = await RewardService.previewStake(id, { predictionValue, stakeAmount, outcomes, walletAddress });
+    if (!preview) {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    return res.json(preview);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error previewing reward:", error);
+    return res.status(500).json({ error: "Failed to preview reward" });
+  }
+});
+
+// GET /api/pools/:id/stakes/:walletAddress - A user's stakes on a pool with verification status
+router.get("/:id/stakes/:walletAddress", async (req: Request, res: Response) => {
+  try {
+    const { id, walletAddress } = req.params;
+
+    const stakes = await db.stake.findMany({
+      where: { poolId: id, userWalletAddress: walletAddress },
+      orderBy: { createdAt: "desc" },
     });
+
+    return res.json(stakes);
   } catch (error) {
-    console.error("Error creating stake:", error);
-    return res.status(500).json({ error: "Failed to create stake" });
+    console.error("Error fetching stakes:", error);
+    return res.status(500).json({ error: "Failed to fetch stakes" });
   }
 });
 
-// Manual resolve endpoint removed - pools are now resolved automatically when deadline passes
+// Crowd pools are resolved automatically when the deadline passes; admin pools through the admin API
+
+// POST /api/pools/:id/outcome - Oracle submits the outcome of an oracle pool
+router.post("/:id/outcome", requireWalletSignature, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { walletAddress, outcomeValue, winningOption }: OutcomeBody = req.body;
+
+    const pool = await db.pool.findUnique({ where: { id } });
+    if (!pool) {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
+    if (pool.resolutionMode !== "oracle" || pool.oracleAddress !== walletAddress) {
+      return res.status(403).json({ error: "Wallet is not the oracle for this pool" });
+    }
+
+    await PoolResolutionService.submitOutcome(id, { outcomeValue, winningOption }, walletAddress);
+
+    const resolvedPool = await db.pool.findUnique({ where: { id } });
+    return res.json(resolvedPool);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error submitting oracle outcome:", error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : "Failed to submit outcome" });
+  }
+});
 
 // GET /api/pools/:id/rewards - Get reward summary for a pool
 router.get("/:id/rewards", async (req: Request, res: Response) => {
@@ -295,15 +531,59 @@ router.get("/:id/rewards", async (req: Request, res: Response) => {
     const { id } = req.params;
 
     const summary = await RewardService.getRewardSummary(id);
+    if (!summary) {
+      return res.status(404).json({ error: "Pool not found" });
+    }
+
     return res.json(summary);
   } catch (error) {
     console.error("Error fetching reward summary:", error);
-    return res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch reward summary" });
+    return res.status(500).json({ error: "Failed to fetch reward summary" });
+  }
+});
+
+// GET /api/pools/:id/rewards/:walletAddress - How a wallet's reward was computed, as stored at resolution
+router.get("/:id/rewards/:walletAddress", async (req: Request, res: Response) => {
+  try {
+    const { id, walletAddress } = req.params;
+
+    const audit = await RewardService.getRewardAudit(id, walletAddress);
+    if (!audit) {
+      return res.status(404).json({ error: "No resolved prediction found for this wallet" });
+    }
+
+    return res.json(audit);
+  } catch (error) {
+    console.error("Error fetching reward audit:", error);
+    return res.status(500).json({ error: "Failed to fetch reward audit" });
+  }
+});
+
+// GET /api/pools/:id/payout/:walletAddress - Payout status and transaction ID for a claim
+router.get("/:id/payout/:walletAddress", async (req: Request, res: Response) => {
+  try {
+    const { id, walletAddress } = req.params;
+
+    const payout = await db.payout.findFirst({
+      where: {
+        recipientAddress: walletAddress,
+        prediction: { poolId: id },
+      },
+    });
+
+    if (!payout) {
+      return res.status(404).json({ error: "No payout found for this user and pool" });
+    }
+
+    return res.json(payout);
+  } catch (error) {
+    console.error("Error fetching payout:", error);
+    return res.status(500).json({ error: "Failed to fetch payout" });
   }
 });
 
 // POST /api/pools/:id/claim - Claim rewards (updated)
-router.post("/:id/claim", async (req: Request, res: Response) => {
+router.post("/:id/claim", idempotent, requireWalletSignature, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { walletAddress }: ClaimBody = req.body;
@@ -319,20 +599,25 @@ router.post("/:id/claim", async (req: Request, res: Response) => {
       return res.status(400).json({ error: claimCheck.reason });
     }
 
-    // Mark as claimed
-    const updatedPrediction = await db.prediction.update({
-      where: { id: claimCheck.prediction!.id },
-      data: { claimed: true },
-    });
+    // Mark as claimed and queue the STX transfer
+    const { prediction: updatedPrediction, payout } = await PayoutService.claimAndEnqueue(
+      claimCheck.prediction!.id,
+      walletAddress,
+      claimCheck.claimableReward!
+    );
 
     return res.json({
       ...updatedPrediction,
       claimedAmount: claimCheck.claimableReward,
-      message: "Rewards claimed successfully",
+      payout,
+      message: "Rewards claimed successfully, payout queued",
     });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error("Error claiming reward:", error);
-    return res.status(500).json({ error: error instanceof Error ? error.message : "Failed to claim reward" });
+    return res.status(500).json({ error: "Failed to claim reward" });
   }
 });
 
@@ -0,0 +1,34 @@
+import { Router, Request, Response } from "express";
+import { PortfolioService } from "../services/portfolioService";
+import { RewardValidation, ValidationError } from "../utils/validation";
+
+const router = Router();
+
+// GET /api/users/:walletAddress - A wallet's positions, claims and P&L
+router.get("/:walletAddress", async (req: Request, res: Response) => {
+  try {
+    const { walletAddress } = req.params;
+    const { status, tag } = req.query;
+
+    RewardValidation.validateWalletAddress(walletAddress);
+
+    const portfolio = await PortfolioService.getPortfolio(walletAddress, {
+      status: typeof status === "string" ? status : undefined,
+      tag: typeof tag === "string" ? tag : undefined,
+    });
+
+    if (!portfolio) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    return res.json(portfolio);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error fetching portfolio:", error);
+    return res.status(500).json({ error: "Failed to fetch portfolio" });
+  }
+});
+
+export default router;
@@ -0,0 +1,152 @@
+import { randomBytes } from 'crypto';
+import { hashMessage, verifyMessageSignatureRsv } from '@stacks/encryption';
+import { getAddressFromPublicKey, publicKeyFromSignatureRsv } from '@stacks/transactions';
+import db from '../db';
+
+// How long a challenge stays valid after it is issued
+const CHALLENGE_TTL_MINUTES = parseInt(process.env.AUTH_CHALLENGE_TTL_MINUTES || '5');
+
+// Domain shown to the user in the message their wallet signs
+const AUTH_DOMAIN = process.env.AUTH_DOMAIN || 'Prognos';
+
+export interface Challenge {
+  walletAddress: string;
+  nonce: string;
+  message: string;
+  expiresAt: Date;
+}
+
+export interface SignedChallenge {
+  walletAddress: string;
+  nonce: string;
+  signature: string;
+}
+
+export interface AuthResult {
+  isValid: boolean;
+  error?: string;
+}
+
+export class AuthService {
+  /**
+   * Issue a single-use sign-in challenge for a wallet
+   * @param walletAddress - The Stacks address that will sign the challenge
+   * @returns The challenge, including the exact message to sign
+   */
+  static async createChallenge(walletAddress: string): Promise<Challenge> {
+    const nonce = randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + CHALLENGE_TTL_MINUTES * 60 * 1000);
+    const message = this.buildMessage(walletAddress, nonce, issuedAt, expiresAt);
+
+    await db.authChallenge.create({
+      data: { walletAddress, nonce, message, expiresAt }
+    });
+
+    return { walletAddress, nonce, message, expiresAt };
+  }
+
+  /**
+   * Build the sign-in-with-Stacks message for a challenge
+   */
+  static buildMessage(walletAddress: string, nonce: string, issuedAt: Date, expiresAt: Date): string {
+    return [
+      `${AUTH_DOMAIN} wants you to sign in with your Stacks account:`,
+      walletAddress,
+      '',
+      'Sign this message to prove you own this wallet. It does not send a transaction or cost any fees.',
+      '',
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+      `Expiration Time: ${expiresAt.toISOString()}`
+    ].join('\n');
+  }
+
+  /**
+   * Check that a message was signed by the private key behind a wallet address
+   * Runs entirely offline: the public key is recovered from the RSV signature
+   * @param message - The signed message
+   * @param signature - RSV signature as hex (as returned by stx_signMessage)
+   * @param walletAddress - The address that is expected to have signed
+   * @returns True if the signature is valid and belongs to the address
+   */
+  static verifyMessageSignature(message: string, signature: string, walletAddress: string): boolean {
+    try {
+      const messageHash = Buffer.from(hashMessage(message)).toString('hex');
+      const publicKey = publicKeyFromSignatureRsv(messageHash, signature);
+
+      if (!verifyMessageSignatureRsv({ message, publicKey, signature })) {
+        return false;
+      }
+
+      // The same key maps to a different address on each network
+      return (
+        getAddressFromPublicKey(publicKey, 'mainnet') === walletAddress ||
+        getAddressFromPublicKey(publicKey, 'testnet') === walletAddress
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Check that a challenge was issued to a wallet and signed by it, without consuming it
+   * Authenticates retries of a request whose nonce the first attempt already used
+   * @param signed - Wallet address, nonce and signature sent by the client
+   * @returns Whether the wallet signed the challenge, used or not
+   */
+  static async verifyChallengeSignature(signed: SignedChallenge): Promise<AuthResult> {
+    const { walletAddress, nonce, signature } = signed;
+
+    const challenge = await db.authChallenge.findUnique({ where: { nonce } });
+
+    if (!challenge || challenge.walletAddress !== walletAddress) {
+      return { isValid: false, error: 'Unknown challenge for this wallet' };
+    }
+
+    if (!this.verifyMessageSignature(challenge.message, signature, walletAddress)) {
+      return { isValid: false, error: 'Invalid signature for this wallet' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Verify a signed challenge and consume its nonce so it cannot be replayed
+   * @param signed - Wallet address, nonce and signature sent by the client
+   * @returns Whether the wallet proved ownership
+   */
+  static async verifySignedChallenge(signed: SignedChallenge): Promise<AuthResult> {
+    const { walletAddress, nonce, signature } = signed;
+
+    const challenge = await db.authChallenge.findUnique({ where: { nonce } });
+
+    if (!challenge || challenge.walletAddress !== walletAddress) {
+      return { isValid: false, error: 'Unknown challenge for this wallet' };
+    }
+
+    if (challenge.usedAt) {
+      return { isValid: false, error: 'Challenge has already been used' };
+    }
+
+    if (challenge.expiresAt <= new Date()) {
+      return { isValid: false, error: 'Challenge has expired' };
+    }
+
+    if (!this.verifyMessageSignature(challenge.message, signature, walletAddress)) {
+      return { isValid: false, error: 'Invalid signature for this wallet' };
+    }
+
+    // Only one request can consume a given nonce
+    const consumed = await db.authChallenge.updateMany({
+      where: { id: challenge.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    if (consumed.count === 0) {
+      return { isValid: false, error: 'Challenge has already been used' };
+    }
+
+    return { isValid: true };
+  }
+}
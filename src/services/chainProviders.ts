@@ -0,0 +1,231 @@
+import { readFileSync } from 'fs';
+import { TransactionData } from './transactionService';
+
+export type StacksNetworkName = 'mainnet' | 'testnet' | 'devnet';
+
+/**
+ * Where chain data comes from and how hard to try
+ */
+export interface ChainConfig {
+  provider: 'stacks' | 'devnet' | 'fake';
+  network: StacksNetworkName;
+  apiUrl: string;
+  timeoutMs: number; // Per request
+  retries: number; // Extra attempts after a timeout, network error, 429 or 5xx
+  retryBaseMs: number; // First retry waits this long, then doubles
+  fixturesPath?: string; // Fake provider only
+}
+
+export interface ChainTip {
+  blockHeight: number;
+}
+
+/**
+ * Read access to the Stacks chain
+ */
+export interface ChainProvider {
+  name: string;
+  network: StacksNetworkName;
+  /**
+   * Look up a transaction, including mempool transactions
+   * @returns The transaction, or null if the chain doesn't know it (yet)
+   * @throws Error if the chain could not be reached
+   */
+  getTransaction(txId: string): Promise<TransactionData | null>;
+  /**
+   * Get the current chain tip
+   * @throws Error if the chain could not be reached
+   */
+  getChainTip(): Promise<ChainTip>;
+  /**
+   * List recent STX transfers sent or received by an address, newest first
+   * @throws Error if the chain could not be reached
+   */
+  getAddressTransfers(address: string, limit?: number): Promise<TransactionData[]>;
+}
+
+const DEFAULT_API_URLS: Record<StacksNetworkName, string> = {
+  mainnet: 'https://stacks-node-api.mainnet.stacks.co',
+  testnet: 'https://stacks-node-api.testnet.stacks.co',
+  devnet: 'http://localhost:3999' // Clarinet devnet's API
+};
+
+/**
+ * Read the chain configuration from the environment:
+ * CHAIN_PROVIDER ("stacks", "devnet" or "fake"), STACKS_NETWORK, STACKS_API_URL,
+ * CHAIN_TIMEOUT_MS, CHAIN_RETRIES, CHAIN_RETRY_BASE_MS and CHAIN_FIXTURES
+ * Without STACKS_NETWORK, production uses mainnet and everything else testnet
+ */
+export function loadChainConfig(env: NodeJS.ProcessEnv = process.env): ChainConfig {
+  const provider = (env.CHAIN_PROVIDER || 'stacks') as ChainConfig['provider'];
+  if (!['stacks', 'devnet', 'fake'].includes(provider)) {
+    throw new Error(`CHAIN_PROVIDER must be one of: stacks, devnet, fake`);
+  }
+
+  const network = (env.STACKS_NETWORK ||
+    (provider === 'devnet' ? 'devnet' : env.NODE_ENV === 'production' ? 'mainnet' : 'testnet')) as StacksNetworkName;
+  if (!(network in DEFAULT_API_URLS)) {
+    throw new Error(`STACKS_NETWORK must be one of: ${Object.keys(DEFAULT_API_URLS).join(', ')}`);
+  }
+
+  return {
+    provider,
+    network,
+    apiUrl: (env.STACKS_API_URL || DEFAULT_API_URLS[network]).replace(/\/+$/, ''),
+    timeoutMs: parseInt(env.CHAIN_TIMEOUT_MS || '10000'),
+    retries: parseInt(env.CHAIN_RETRIES || '2'),
+    retryBaseMs: parseInt(env.CHAIN_RETRY_BASE_MS || '500'),
+    fixturesPath: env.CHAIN_FIXTURES
+  };
+}
+
+/**
+ * Reads from a Stacks API (Hiro's hosted API, or a local devnet's)
+ */
+export class StacksApiChainProvider implements ChainProvider {
+  name: string;
+  network: StacksNetworkName;
+
+  constructor(private config: ChainConfig) {
+    this.name = config.provider;
+    this.network = config.network;
+  }
+
+  async getTransaction(txId: string): Promise<TransactionData | null> {
+    return this.request<TransactionData>(`/extended/v1/tx/${txId}`);
+  }
+
+  async getChainTip(): Promise<ChainTip> {
+    const status = await this.request<any>('/extended/v1/status');
+    const blockHeight = status?.chain_tip?.block_height;
+
+    if (typeof blockHeight !== 'number') {
+      throw new Error('Stacks API status has no chain tip');
+    }
+
+    return { blockHeight };
+  }
+
+  async getAddressTransfers(address: string, limit: number = 50): Promise<TransactionData[]> {
+    const page = await this.request<{ results: TransactionData[] }>(
+      `/extended/v1/address/${address}/transactions?limit=${limit}`
+    );
+
+    return (page?.results || []).filter(tx => tx.tx_type === 'token_transfer');
+  }
+
+  /**
+   * GET a path, retrying timeouts, network errors, 429s and 5xxs with exponential backoff
+   * @returns The parsed body, or null on a 404
+   */
+  private async request<T>(path: string): Promise<T | null> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.config.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.config.retryBaseMs * 2 ** (attempt - 1)));
+      }
+
+      try {
+        const response = await fetch(`${this.config.apiUrl}${path}`, {
+          signal: AbortSignal.timeout(this.config.timeoutMs)
+        });
+
+        if (response.status === 404) {
+          return null;
+        }
+
+        if (!response.ok) {
+          lastError = new Error(`API request failed: ${response.status} ${response.statusText}`);
+          if (response.status === 429 || response.status >= 500) continue;
+          throw lastError;
+        }
+
+        return (await response.json()) as T;
+      } catch (error) {
+        // Only timeouts and network errors are retried; fetch reports both as non-HTTP errors
+        if (error === lastError) throw error;
+        lastError = error;
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('API request failed');
+  }
+}
+
+/**
+ * Fixture file for the fake provider: { "blockHeight": 100, "transactions": [...] }
+ */
+export interface ChainFixtures {
+  blockHeight?: number;
+  transactions?: TransactionData[];
+}
+
+/**
+ * In-memory chain for local development and tests - nothing leaves the process
+ * Seed it with fixture transactions, then add transactions and mine blocks as a test goes
+ */
+export class FakeChainProvider implements ChainProvider {
+  name = 'fake';
+  network: StacksNetworkName;
+  blockHeight: number;
+  transactions = new Map<string, TransactionData>();
+
+  constructor(fixtures: ChainFixtures = {}, network: StacksNetworkName = 'testnet') {
+    this.network = network;
+    this.blockHeight = fixtures.blockHeight ?? 1;
+    for (const transaction of fixtures.transactions || []) {
+      this.addTransaction(transaction);
+    }
+  }
+
+  /**
+   * Load fixtures from a JSON file
+   */
+  static fromFile(path: string, network?: StacksNetworkName): FakeChainProvider {
+    return new FakeChainProvider(JSON.parse(readFileSync(path, 'utf8')) as ChainFixtures, network);
+  }
+
+  addTransaction(transaction: TransactionData): void {
+    this.transactions.set(transaction.tx_id, transaction);
+  }
+
+  /**
+   * Advance the chain tip, adding confirmations to every mined transaction
+   */
+  mineBlocks(count: number = 1): void {
+    this.blockHeight += count;
+  }
+
+  async getTransaction(txId: string): Promise<TransactionData | null> {
+    const transaction = this.transactions.get(txId);
+    return transaction ? { ...transaction } : null;
+  }
+
+  async getChainTip(): Promise<ChainTip> {
+    return { blockHeight: this.blockHeight };
+  }
+
+  async getAddressTransfers(address: string, limit: number = 50): Promise<TransactionData[]> {
+    return [...this.transactions.values()]
+      .filter(tx =>
+        tx.tx_type === 'token_transfer' &&
+        (tx.sender_address === address || tx.token_transfer?.recipient_address === address)
+      )
+      .sort((a, b) => (b.block_height ?? Infinity) - (a.block_height ?? Infinity))
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Pick the chain provider from the chain configuration
+ */
+export function createChainProvider(config: ChainConfig = loadChainConfig()): ChainProvider {
+  if (config.provider === 'fake') {
+    return config.fixturesPath
+      ? FakeChainProvider.fromFile(config.fixturesPath, config.network)
+      : new FakeChainProvider({}, config.network);
+  }
+
+  return new StacksApiChainProvider(config);
+}
@@ -0,0 +1,256 @@
+import db from '../db';
+import { getOutcomeOptions } from '../types/pool';
+import { ValidationError } from '../utils/validation';
+import { RewardService } from './rewardService';
+import { PoolResolutionService } from './poolResolutionService';
+
+export const DEFAULT_BUCKET_SIZE = 10;
+export const DEFAULT_SNAPSHOTS = 24;
+export const MAX_SNAPSHOTS = 100;
+
+export interface DistributionQuery {
+  bucketSize: number; // Width of a numeric histogram bucket on the 0-100 scale
+  snapshots: number; // How many points the timeline has
+}
+
+/**
+ * One histogram bucket: a 0-100 range for numeric pools, or one option of a categorical pool
+ */
+export interface DistributionBucket {
+  from: number | null; // Inclusive; null for categorical options
+  to: number | null; // Exclusive, except the last bucket which includes 100
+  option: string | null; // Categorical options only
+  stake: number; // Verified stake at values in the bucket
+  votes: number; // Predictions currently in the bucket, staked or not
+}
+
+/**
+ * Predictions above 50 count as "yes" and below 50 as "no"; exactly 50 is undecided
+ */
+export interface YesNoSplit {
+  yesVotes: number;
+  noVotes: number;
+  undecidedVotes: number;
+  yesStake: number;
+  noStake: number;
+  undecidedStake: number;
+  impliedYesProbability: number | null; // Yes stake over decided stake (votes when nothing is staked)
+}
+
+export interface DistributionSnapshot {
+  at: Date;
+  votes: number;
+  totalStake: number;
+  crowdEstimate: number | null;
+}
+
+interface WeightedValue {
+  value: number;
+  weight: number;
+}
+
+/**
+ * Read ?bucketSize= and ?snapshots= from a request query
+ * @throws ValidationError if either is out of range
+ */
+export function parseDistributionQuery(query: Record<string, unknown>): DistributionQuery {
+  const bucketSize = query.bucketSize === undefined ? DEFAULT_BUCKET_SIZE : Number(query.bucketSize);
+  const snapshots = query.snapshots === undefined ? DEFAULT_SNAPSHOTS : Number(query.snapshots);
+
+  if (!Number.isInteger(bucketSize) || bucketSize < 1 || bucketSize > 50) {
+    throw new ValidationError('Bucket size must be a whole number between 1 and 50');
+  }
+
+  if (!Number.isInteger(snapshots) || snapshots < 1 || snapshots > MAX_SNAPSHOTS) {
+    throw new ValidationError(`Snapshots must be a whole number between 1 and ${MAX_SNAPSHOTS}`);
+  }
+
+  return { bucketSize, snapshots };
+}
+
+export class DistributionService {
+  /**
+   * Summarize what the crowd thinks of a pool: histograms, yes/no split, medians,
+   * the crowd estimate and how it moved over time
+   * Stake is counted stake by stake at each stake's own value; votes count each
+   * prediction once at its current value
+   * @param poolId - The pool
+   * @param query - Histogram bucket size and timeline resolution
+   * @returns null if the pool does not exist
+   */
+  static async getDistribution(poolId: string, query: DistributionQuery) {
+    const pool = await db.pool.findUnique({
+      where: { id: poolId },
+      include: {
+        predictions: {
+          include: { stakes: { where: { status: 'verified' } } }
+        }
+      }
+    });
+
+    if (!pool) {
+      return null;
+    }
+
+    const options = getOutcomeOptions(pool);
+    const { predictions } = pool;
+
+    const votes: WeightedValue[] = predictions.map(prediction => ({
+      value: RewardService.parsePoolPrediction(pool, prediction.predictionValue),
+      weight: 1
+    }));
+    const stakes: WeightedValue[] = predictions.flatMap(prediction =>
+      RewardService.getPredictionStakes(prediction).map(stake => ({
+        value: RewardService.parsePoolPrediction(pool, stake.predictionValue),
+        weight: stake.amount
+      }))
+    );
+
+    const crowdEstimate = PoolResolutionService.estimateOutcome(pool);
+
+    return {
+      poolId: pool.id,
+      status: pool.status,
+      outcomeOptions: options,
+      totalStake: pool.totalStake,
+      votes: predictions.length,
+      histogram: options
+        ? this.optionHistogram(options, stakes, votes)
+        : this.numericHistogram(query.bucketSize, stakes, votes),
+      split: options ? null : this.yesNoSplit(stakes, votes),
+      median: options ? null : {
+        votes: this.weightedMedian(votes),
+        stake: this.weightedMedian(stakes)
+      },
+      crowdEstimate: {
+        value: crowdEstimate,
+        option: options && crowdEstimate !== null ? options[crowdEstimate] : null
+      },
+      snapshots: this.snapshots(pool, query.snapshots)
+    };
+  }
+
+  private static numericHistogram(bucketSize: number, stakes: WeightedValue[], votes: WeightedValue[]): DistributionBucket[] {
+    const count = Math.ceil(100 / bucketSize);
+    const buckets: DistributionBucket[] = Array.from({ length: count }, (_, i) => ({
+      from: i * bucketSize,
+      to: Math.min(100, (i + 1) * bucketSize),
+      option: null,
+      stake: 0,
+      votes: 0
+    }));
+
+    const bucketOf = (value: number) => Math.min(count - 1, Math.max(0, Math.floor(value / bucketSize)));
+
+    for (const { value, weight } of stakes) {
+      if (Number.isFinite(value)) buckets[bucketOf(value)].stake += weight;
+    }
+    for (const { value } of votes) {
+      if (Number.isFinite(value)) buckets[bucketOf(value)].votes++;
+    }
+
+    return buckets;
+  }
+
+  private static optionHistogram(options: string[], stakes: WeightedValue[], votes: WeightedValue[]): DistributionBucket[] {
+    return options.map((option, index) => ({
+      from: null,
+      to: null,
+      option,
+      stake: stakes.filter(entry => entry.value === index).reduce((sum, entry) => sum + entry.weight, 0),
+      votes: votes.filter(entry => entry.value === index).length
+    }));
+  }
+
+  private static yesNoSplit(stakes: WeightedValue[], votes: WeightedValue[]): YesNoSplit {
+    const side = (entries: WeightedValue[], test: (value: number) => boolean) =>
+      entries.filter(entry => test(entry.value)).reduce((sum, entry) => sum + entry.weight, 0);
+
+    const split = {
+      yesVotes: side(votes, value => value > 50),
+      noVotes: side(votes, value => value < 50),
+      undecidedVotes: side(votes, value => value === 50),
+      yesStake: side(stakes, value => value > 50),
+      noStake: side(stakes, value => value < 50),
+      undecidedStake: side(stakes, value => value === 50)
+    };
+
+    const decidedStake = split.yesStake + split.noStake;
+    const decidedVotes = split.yesVotes + split.noVotes;
+
+    return {
+      ...split,
+      impliedYesProbability: decidedStake > 0
+        ? split.yesStake / decidedStake
+        : decidedVotes > 0 ? split.yesVotes / decidedVotes : null
+    };
+  }
+
+  /**
+   * The value with half the weight on either side (the plain median when every weight is 1)
+   */
+  private static weightedMedian(entries: WeightedValue[]): number | null {
+    const sorted = entries.filter(entry => Number.isFinite(entry.value) && entry.weight > 0)
+      .sort((a, b) => a.value - b.value);
+    const total = sorted.reduce((sum, entry) => sum + entry.weight, 0);
+
+    if (total === 0) {
+      return null;
+    }
+
+    let cumulative = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      cumulative += sorted[i].weight;
+      if (cumulative === total / 2 && i + 1 < sorted.length) {
+        // Exactly half the weight on each side: average the two middle values
+        return (sorted[i].value + sorted[i + 1].value) / 2;
+      }
+      if (cumulative > total / 2) {
+        return sorted[i].value;
+      }
+    }
+
+    return sorted[sorted.length - 1].value;
+  }
+
+  /**
+   * Replay the pool from its creation to its deadline (or now), evenly spaced
+   * Predictions are placed by when they were made and stakes by when they were submitted;
+   * predictions that changed side are shown at their current value throughout
+   */
+  private static snapshots(
+    pool: { createdAt: Date; deadline: Date; outcomeOptions: unknown; predictions: any[] },
+    count: number
+  ): DistributionSnapshot[] {
+    const start = pool.createdAt.getTime();
+    const end = Math.max(start, Math.min(Date.now(), pool.deadline.getTime()));
+    const step = count > 1 ? (end - start) / (count - 1) : 0;
+
+    return Array.from({ length: count }, (_, i) => {
+      const at = count > 1 ? start + step * i : end;
+
+      const predictions = pool.predictions
+        .filter(prediction => prediction.createdAt.getTime() <= at)
+        .map(prediction => {
+          // Predictions from before the stake ledger keep their stakeAmount throughout
+          if (prediction.stakes.length === 0) {
+            return prediction;
+          }
+
+          const stakes = prediction.stakes.filter((stake: any) => stake.createdAt.getTime() <= at);
+          return {
+            ...prediction,
+            stakes,
+            stakeAmount: stakes.reduce((sum: number, stake: any) => sum + stake.amount, 0)
+          };
+        });
+
+      return {
+        at: new Date(at),
+        votes: predictions.length,
+        totalStake: predictions.reduce((sum, prediction) => sum + prediction.stakeAmount, 0),
+        crowdEstimate: PoolResolutionService.estimateOutcome({ outcomeOptions: pool.outcomeOptions, predictions })
+      };
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import db, { DbClient } from '../db';
+
+// Protocol fee taken from every pool before rewards are distributed, in basis points
+const DEFAULT_PROTOCOL_FEE_BPS = parseInt(process.env.PROTOCOL_FEE_BPS || '0');
+
+const BPS_DENOMINATOR = 10_000;
+
+export interface FeeReportFilters {
+  tag?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export class FeeService {
+  /**
+   * Get the fee rate for a pool: its own override, or the global default
+   * @param pool - The pool (only protocolFeeBps is read)
+   * @returns Fee in basis points
+   */
+  static getFeeBps(pool: { protocolFeeBps?: number | null }): number {
+    return pool.protocolFeeBps ?? DEFAULT_PROTOCOL_FEE_BPS;
+  }
+
+  /**
+   * Calculate the protocol fee on a stake total
+   * @param totalStake - Sum of all stakes in the pool
+   * @param feeBps - Fee in basis points
+   * @returns Fee amount, in the same unit as totalStake
+   */
+  static calculateFee(totalStake: number, feeBps: number): number {
+    return (totalStake * feeBps) / BPS_DENOMINATOR;
+  }
+
+  /**
+   * Record a collected fee in the fee ledger
+   * @param client - Transaction client when recorded as part of a resolution
+   */
+  static async recordFee(poolId: string, amount: number, feeBps: number, client: DbClient = db): Promise<void> {
+    if (amount <= 0) return;
+
+    await client.protocolFee.create({
+      data: { poolId, amount, feeBps }
+    });
+  }
+
+  /**
+   * Record the change in a pool's fee after its outcome was corrected
+   * A negative amount gives back fee collected at the earlier resolution
+   */
+  static async recordFeeAdjustment(poolId: string, amount: number, feeBps: number, client: DbClient = db): Promise<void> {
+    if (amount === 0) return;
+
+    await client.protocolFee.create({
+      data: { poolId, amount, feeBps }
+    });
+  }
+
+  /**
+   * Summarize collected fees per pool and per tag
+   * @param filters - Optional pool tag and collection time range
+   * @returns Totals overall, per pool and per tag
+   */
+  static async getFeeReport(filters: FeeReportFilters = {}): Promise<any> {
+    const entries = await db.protocolFee.findMany({
+      where: {
+        pool: filters.tag ? { tag: filters.tag } : undefined,
+        createdAt: {
+          gte: filters.from,
+          lte: filters.to
+        }
+      },
+      include: {
+        pool: { select: { id: true, title: true, tag: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const byPool = new Map<string, { poolId: string; title: string; tag: string; amount: number; entries: number }>();
+    const byTag = new Map<string, number>();
+    let totalFees = 0;
+
+    for (const entry of entries) {
+      const poolTotal = byPool.get(entry.poolId) || {
+        poolId: entry.poolId,
+        title: entry.pool.title,
+        tag: entry.pool.tag,
+        amount: 0,
+        entries: 0
+      };
+      poolTotal.amount += entry.amount;
+      poolTotal.entries += 1;
+      byPool.set(entry.poolId, poolTotal);
+
+      byTag.set(entry.pool.tag, (byTag.get(entry.pool.tag) || 0) + entry.amount);
+      totalFees += entry.amount;
+    }
+
+    return {
+      filters,
+      totalFees,
+      byPool: [...byPool.values()],
+      byTag: [...byTag.entries()].map(([tag, amount]) => ({ tag, amount }))
+    };
+  }
+}
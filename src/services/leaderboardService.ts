@@ -0,0 +1,231 @@
+import db from '../db';
+import { RewardService } from './rewardService';
+import { getOutcomeOptions } from '../types/pool';
+import { ValidationError } from '../utils/validation';
+import { pageArgs, toPage } from '../utils/pagination';
+
+// Wallets need this many resolved predictions to be ranked, unless the request asks otherwise
+const DEFAULT_MIN_PREDICTIONS = parseInt(process.env.LEADERBOARD_MIN_PREDICTIONS || '5');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Predictions are read in batches of this many, so memory holds one batch plus the per-wallet totals
+const BATCH_SIZE = 1000;
+
+/**
+ * Rolling windows, counted back from now by the pool's resolution time
+ */
+export const LEADERBOARD_WINDOWS: Record<string, number | null> = {
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS,
+  'all-time': null
+};
+
+/**
+ * What wallets are ranked by:
+ * - score: average accuracy score (higher is better)
+ * - brier: average squared error on a 0-1 scale (lower is better)
+ * - profit: rewards earned minus stake put in
+ * - predictions: number of resolved predictions
+ */
+export const LEADERBOARD_SORTS = ['score', 'brier', 'profit', 'predictions'] as const;
+export type LeaderboardSort = typeof LEADERBOARD_SORTS[number];
+
+export interface LeaderboardQuery {
+  window?: string;
+  tag?: string;
+  sort?: string;
+  minPredictions?: number;
+  limit?: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  walletAddress: string;
+  resolvedPredictions: number;
+  averageScore: number;
+  brierScore: number;
+  totalStaked: number;
+  totalWon: number;
+  profit: number;
+}
+
+export class LeaderboardService {
+  /**
+   * Score one resolved prediction
+   * Numeric and yes/no pools use RewardService.calculateScore and treat 0-100 as a probability;
+   * categorical pools score 1 for the winning option and 0 otherwise
+   * @returns Accuracy score (0-1) and Brier-style squared error (0-1)
+   */
+  static scorePrediction(pool: { outcomeValue: number; outcomeOptions?: unknown }, predictionValue: string): {
+    score: number;
+    brier: number;
+  } {
+    const prediction = RewardService.parsePoolPrediction(pool, predictionValue);
+
+    if (getOutcomeOptions(pool)) {
+      const correct = prediction === pool.outcomeValue;
+      return { score: correct ? 1 : 0, brier: correct ? 0 : 1 };
+    }
+
+    return {
+      score: RewardService.calculateScore(prediction, pool.outcomeValue),
+      brier: ((prediction - pool.outcomeValue) / 100) ** 2
+    };
+  }
+
+  /**
+   * Score a resolved prediction stake by stake, weighted by amount, the way calculateRewards
+   * scores it; unstaked votes are scored on their prediction value
+   */
+  static scorePosition(pool: { outcomeValue: number; outcomeOptions?: unknown }, prediction: any): {
+    score: number;
+    brier: number;
+  } {
+    const stakes = RewardService.getPredictionStakes(prediction);
+    if (stakes.length === 0) {
+      return this.scorePrediction(pool, prediction.predictionValue);
+    }
+
+    const total = stakes.reduce((sum, stake) => sum + stake.amount, 0);
+    return stakes.reduce((result, stake) => {
+      const { score, brier } = this.scorePrediction(pool, stake.predictionValue);
+      return {
+        score: result.score + score * stake.amount / total,
+        brier: result.brier + brier * stake.amount / total
+      };
+    }, { score: 0, brier: 0 });
+  }
+
+  /**
+   * Rank wallets over the predictions of resolved pools
+   * @throws ValidationError on an unknown window or sort
+   */
+  static async getLeaderboard(query: LeaderboardQuery = {}) {
+    const window = query.window || 'all-time';
+    const sort = (query.sort || 'score') as LeaderboardSort;
+    const minPredictions = query.minPredictions ?? DEFAULT_MIN_PREDICTIONS;
+    const limit = query.limit ?? 50;
+
+    // Own keys only, so names inherited from Object.prototype like "constructor" are rejected
+    if (!Object.prototype.hasOwnProperty.call(LEADERBOARD_WINDOWS, window)) {
+      throw new ValidationError(`Window must be one of: ${Object.keys(LEADERBOARD_WINDOWS).join(', ')}`);
+    }
+
+    if (!LEADERBOARD_SORTS.includes(sort)) {
+      throw new ValidationError(`Sort must be one of: ${LEADERBOARD_SORTS.join(', ')}`);
+    }
+
+    if (!Number.isInteger(minPredictions) || minPredictions < 1) {
+      throw new ValidationError('Minimum predictions must be a positive whole number');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw new ValidationError('Limit must be a whole number between 1 and 100');
+    }
+
+    const windowMs = LEADERBOARD_WINDOWS[window];
+    const since = windowMs === null ? null : new Date(Date.now() - windowMs);
+
+    const where = {
+      pool: {
+        status: 'resolved',
+        outcomeValue: { not: null },
+        tag: query.tag ? query.tag.toLowerCase() : undefined,
+        // Pools resolved before resolvedAt was recorded fall back to their deadline
+        OR: since
+          ? [{ resolvedAt: { gte: since } }, { resolvedAt: null, deadline: { gte: since } }]
+          : undefined
+      }
+    };
+
+    const totals = new Map<string, Omit<LeaderboardEntry, 'rank' | 'averageScore' | 'brierScore'> & {
+      scoreSum: number;
+      brierSum: number;
+    }>();
+
+    let cursor: string | undefined;
+    do {
+      const rows = await db.prediction.findMany({
+        where,
+        include: {
+          pool: { select: { outcomeValue: true, outcomeOptions: true } },
+          stakes: { where: { status: 'verified' } }
+        },
+        orderBy: { id: 'asc' },
+        ...pageArgs({ limit: BATCH_SIZE, cursor })
+      });
+      const batch = toPage(rows, { limit: BATCH_SIZE });
+
+      for (const prediction of batch.items) {
+        const { score, brier } = this.scorePosition(
+          { outcomeValue: prediction.pool.outcomeValue!, outcomeOptions: prediction.pool.outcomeOptions },
+          prediction
+        );
+        if (isNaN(score)) continue;
+
+        const entry = totals.get(prediction.userWalletAddress) || {
+          walletAddress: prediction.userWalletAddress,
+          resolvedPredictions: 0,
+          scoreSum: 0,
+          brierSum: 0,
+          totalStaked: 0,
+          totalWon: 0,
+          profit: 0
+        };
+
+        entry.resolvedPredictions++;
+        entry.scoreSum += score;
+        entry.brierSum += brier;
+        entry.totalStaked += prediction.stakeAmount;
+        entry.totalWon += prediction.claimableReward || 0;
+        entry.profit = entry.totalWon - entry.totalStaked;
+        totals.set(prediction.userWalletAddress, entry);
+      }
+
+      cursor = batch.nextCursor ?? undefined;
+    } while (cursor);
+
+    const ranked = [...totals.values()]
+      .filter(entry => entry.resolvedPredictions >= minPredictions)
+      .map(({ scoreSum, brierSum, ...entry }) => ({
+        ...entry,
+        averageScore: scoreSum / entry.resolvedPredictions,
+        brierScore: brierSum / entry.resolvedPredictions
+      }));
+
+    const sortKey: Record<LeaderboardSort, (entry: typeof ranked[number]) => number> = {
+      score: entry => -entry.averageScore,
+      brier: entry => entry.brierScore,
+      profit: entry => -entry.profit,
+      predictions: entry => -entry.resolvedPredictions
+    };
+
+    // More resolved predictions break ties, then the wallet address keeps the order stable
+    ranked.sort((a, b) =>
+      sortKey[sort](a) - sortKey[sort](b) ||
+      b.resolvedPredictions - a.resolvedPredictions ||
+      a.walletAddress.localeCompare(b.walletAddress)
+    );
+
+    const entries: LeaderboardEntry[] = ranked.slice(0, limit).map((entry, i) => ({
+      rank: i + 1,
+      walletAddress: entry.walletAddress,
+      resolvedPredictions: entry.resolvedPredictions,
+      averageScore: entry.averageScore,
+      brierScore: entry.brierScore,
+      totalStaked: entry.totalStaked,
+      totalWon: entry.totalWon,
+      profit: entry.profit
+    }));
+
+    return {
+      window,
+      tag: query.tag ? query.tag.toLowerCase() : null,
+      sort,
+      minPredictions,
+      totalRanked: ranked.length,
+      entries
+    };
+  }
+}
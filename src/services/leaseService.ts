@@ -0,0 +1,63 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { Prisma } from '@prisma/client';
+import db from '../db';
+
+export class LeaseService {
+  // Identifies this process as a lease holder
+  static readonly instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  /**
+   * Take a lease, or extend it if this instance already holds it
+   * @param key - What the lease protects
+   * @param ttlMs - How long the lease lasts if it isn't released
+   * @returns false if another instance holds an unexpired lease
+   */
+  static async acquire(key: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    const taken = await db.lease.updateMany({
+      where: {
+        key,
+        OR: [{ holder: this.instanceId }, { expiresAt: { lt: now } }]
+      },
+      data: { holder: this.instanceId, expiresAt }
+    });
+    if (taken.count > 0) return true;
+
+    try {
+      await db.lease.create({ data: { key, holder: this.instanceId, expiresAt } });
+      return true;
+    } catch (error) {
+      // Another instance created or holds it
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Give up a lease held by this instance
+   */
+  static async release(key: string): Promise<void> {
+    await db.lease.deleteMany({ where: { key, holder: this.instanceId } });
+  }
+
+  /**
+   * Run a task while holding a lease
+   * @returns The task's result, or null if another instance holds the lease
+   */
+  static async withLease<T>(key: string, ttlMs: number, task: () => Promise<T>): Promise<T | null> {
+    if (!(await this.acquire(key, ttlMs))) {
+      return null;
+    }
+
+    try {
+      return await task();
+    } finally {
+      await this.release(key);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { Response } from 'express';
+import db from '../db';
+import { PoolEvent, PoolEventType, PoolEvents } from './poolEvents';
+import { PoolResolutionService } from './poolResolutionService';
+import { PoolStatsService } from './poolStatsService';
+
+// Votes and stakes on the same pool within this window go out as one update,
+// so a single event can't be tied back to the wallet that caused it
+const COALESCE_MS = parseInt(process.env.LIVE_UPDATE_COALESCE_MS || '2000');
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+interface Subscriber {
+  res: Response;
+  poolId: string | null; // null for the global feed
+}
+
+export class LiveUpdateService {
+  private static isRunning = false;
+  private static heartbeatInterval: NodeJS.Timeout | null = null;
+  private static unsubscribe: (() => void) | null = null;
+  private static subscribers = new Set<Subscriber>();
+  private static pendingActivity = new Map<string, { types: Set<PoolEventType>; timer: NodeJS.Timeout }>();
+
+  /**
+   * Start relaying pool events to subscribers
+   */
+  static start(): void {
+    if (this.isRunning) {
+      console.log('🔄 Live update service already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('🚀 Starting live update service...');
+
+    this.unsubscribe = PoolEvents.subscribe(event => this.handleEvent(event));
+
+    this.heartbeatInterval = setInterval(() => {
+      for (const subscriber of this.subscribers) {
+        subscriber.res.write(': heartbeat\n\n');
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Stop relaying and close every open stream
+   */
+  static stop(): void {
+    if (!this.isRunning) {
+      console.log('⏸️ Live update service already stopped');
+      return;
+    }
+
+    this.isRunning = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    for (const { timer } of this.pendingActivity.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingActivity.clear();
+
+    for (const subscriber of this.subscribers) {
+      subscriber.res.end();
+    }
+    this.subscribers.clear();
+
+    console.log('⏹️ Live update service stopped');
+  }
+
+  /**
+   * Open a Server-Sent Events stream on the response
+   * Per-pool subscribers get a snapshot of the pool straight away
+   * @param res - The response to stream to; closed by the client
+   * @param poolId - The pool to follow, or null for every pool
+   */
+  static async subscribe(res: Response, poolId: string | null): Promise<void> {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+
+    const subscriber: Subscriber = { res, poolId };
+    this.subscribers.add(subscriber);
+    res.on('close', () => {
+      this.subscribers.delete(subscriber);
+    });
+
+    if (poolId) {
+      const snapshot = await this.buildPoolUpdate(poolId);
+      if (snapshot) {
+        this.send(subscriber, 'pool.snapshot', snapshot);
+      }
+    }
+  }
+
+  /**
+   * Status changes and resolutions go out right away; votes and stakes are coalesced per pool
+   */
+  private static handleEvent(event: PoolEvent): void {
+    if (event.type !== 'pool.vote' && event.type !== 'pool.stake') {
+      this.broadcast(event.poolId, [event.type]);
+      return;
+    }
+
+    const pending = this.pendingActivity.get(event.poolId);
+    if (pending) {
+      pending.types.add(event.type);
+      return;
+    }
+
+    const types = new Set([event.type]);
+    const timer = setTimeout(() => {
+      this.pendingActivity.delete(event.poolId);
+      this.broadcast(event.poolId, [...types]);
+    }, COALESCE_MS);
+
+    this.pendingActivity.set(event.poolId, { types, timer });
+  }
+
+  /**
+   * Build one update for the pool and send it to its subscribers and the global feed
+   */
+  private static async broadcast(poolId: string, types: PoolEventType[]): Promise<void> {
+    const interested = [...this.subscribers].filter(s => s.poolId === null || s.poolId === poolId);
+    if (interested.length === 0) return;
+
+    try {
+      const update = await this.buildPoolUpdate(poolId);
+      // Drafts are hidden until published, so e.g. cancelling one announces nothing
+      if (!update || update.status === 'draft') return;
+
+      for (const type of types) {
+        for (const subscriber of interested) {
+          this.send(subscriber, type, update);
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Error broadcasting update for pool ${poolId}:`, error);
+    }
+  }
+
+  /**
+   * Pool-level aggregates only: totals, counts and the crowd's current estimate
+   */
+  private static async buildPoolUpdate(poolId: string) {
+    const pool = await db.pool.findUnique({ where: { id: poolId } });
+
+    if (!pool) return null;
+
+    const [{ stats, optionTotals }] = await PoolStatsService.withAggregates([pool]);
+
+    const crowdEstimate = pool.status === 'resolved' || pool.status === 'cancelled'
+      ? null
+      : PoolResolutionService.estimateFromWeights(pool, await PoolStatsService.getOutcomeWeights(pool.id));
+
+    return {
+      poolId: pool.id,
+      title: pool.title,
+      tag: pool.tag,
+      status: pool.status,
+      deadline: pool.deadline,
+      totalStake: pool.totalStake,
+      stats,
+      optionTotals,
+      crowdEstimate,
+      outcomeValue: pool.outcomeValue,
+      winningOption: pool.winningOption,
+      resolvedAt: pool.resolvedAt
+    };
+  }
+
+  private static send(subscriber: Subscriber, type: string, data: unknown): void {
+    subscriber.res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Get service status
+   */
+  static getStatus(): { isRunning: boolean; subscribers: number; coalesceMs: number } {
+    return {
+      isRunning: this.isRunning,
+      subscribers: this.subscribers.size,
+      coalesceMs: COALESCE_MS
+    };
+  }
+}
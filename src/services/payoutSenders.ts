@@ -0,0 +1,189 @@
+import { randomBytes } from 'crypto';
+import {
+  broadcastTransaction,
+  Cl,
+  getAddressFromPrivateKey,
+  makeContractCall,
+  makeSTXTokenTransfer,
+  Pc,
+  StacksTransactionWire
+} from '@stacks/transactions';
+import { StakeAsset } from '../types/asset';
+import { PLATFORM_ADDRESS, STACKS_API_URL, STACKS_NETWORK, TransactionService } from './transactionService';
+
+export interface PayoutTransfer {
+  recipient: string;
+  amount: bigint; // In the asset's base units (microSTX for STX)
+  asset: StakeAsset;
+  memo?: string;
+}
+
+// 'missing' means the node has no record of the transaction, e.g. a broadcast that never arrived
+export type PayoutTxStatus = 'pending' | 'success' | 'failed' | 'missing';
+
+/**
+ * A signed transfer that has not been broadcast yet
+ * The txId is known up front so it can be saved before anything goes out
+ */
+export interface SignedTransfer {
+  txId: string;
+  payload: unknown; // Sender-specific signed transaction
+}
+
+/**
+ * The node definitely refused the transaction, so nothing went out and it is safe to resend
+ */
+export class BroadcastRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BroadcastRejectedError';
+  }
+}
+
+/**
+ * Signs and broadcasts payout transfers from the platform wallet
+ */
+export interface PayoutSender {
+  name: string;
+  /**
+   * Build and sign a transfer without sending it
+   * @throws Error if the transfer could not be signed
+   */
+  signTransfer(transfer: PayoutTransfer): Promise<SignedTransfer>;
+  /**
+   * Broadcast a signed transfer
+   * @throws BroadcastRejectedError if the node rejected it; any other error means it may have gone out
+   */
+  broadcast(signed: SignedTransfer): Promise<void>;
+  /**
+   * Look up the on-chain status of a broadcast transfer
+   */
+  getTransactionStatus(txId: string): Promise<PayoutTxStatus>;
+}
+
+/**
+ * Sends real STX or SIP-010 tokens from PLATFORM_ADDRESS using PLATFORM_PRIVATE_KEY
+ */
+export class StacksPayoutSender implements PayoutSender {
+  name = 'stacks';
+
+  private getSenderKey(): string {
+    const senderKey = process.env.PLATFORM_PRIVATE_KEY;
+    if (!senderKey) {
+      throw new Error('PLATFORM_PRIVATE_KEY is not configured');
+    }
+
+    // Refuse to pay out from any wallet other than the one stakes are sent to
+    if (getAddressFromPrivateKey(senderKey, STACKS_NETWORK) !== PLATFORM_ADDRESS) {
+      throw new Error('PLATFORM_PRIVATE_KEY does not match PLATFORM_ADDRESS');
+    }
+
+    return senderKey;
+  }
+
+  async signTransfer(transfer: PayoutTransfer): Promise<SignedTransfer> {
+    const { asset } = transfer;
+    const senderKey = this.getSenderKey();
+
+    const transaction = asset.contractId && asset.tokenName
+      ? await makeContractCall({
+          contractAddress: asset.contractId.split('.')[0],
+          contractName: asset.contractId.split('.')[1],
+          functionName: 'transfer',
+          functionArgs: [
+            Cl.uint(transfer.amount),
+            Cl.principal(PLATFORM_ADDRESS),
+            Cl.principal(transfer.recipient),
+            transfer.memo ? Cl.some(Cl.bufferFromUtf8(transfer.memo)) : Cl.none()
+          ],
+          // The call may move exactly this many tokens out of the platform wallet and nothing else
+          postConditions: [
+            Pc.principal(PLATFORM_ADDRESS)
+              .willSendEq(transfer.amount)
+              .ft(asset.contractId as `${string}.${string}`, asset.tokenName)
+          ],
+          senderKey,
+          network: STACKS_NETWORK,
+          client: { baseUrl: STACKS_API_URL }
+        })
+      : await makeSTXTokenTransfer({
+          recipient: transfer.recipient,
+          amount: transfer.amount,
+          memo: transfer.memo,
+          senderKey,
+          network: STACKS_NETWORK,
+          client: { baseUrl: STACKS_API_URL }
+        });
+
+    return { txId: transaction.txid(), payload: transaction };
+  }
+
+  async broadcast(signed: SignedTransfer): Promise<void> {
+    const result = await broadcastTransaction({
+      transaction: signed.payload as StacksTransactionWire,
+      network: STACKS_NETWORK,
+      client: { baseUrl: STACKS_API_URL }
+    });
+
+    if ('error' in result) {
+      throw new BroadcastRejectedError(`Broadcast rejected: ${result.error} (${result.reason})`);
+    }
+  }
+
+  async getTransactionStatus(txId: string): Promise<PayoutTxStatus> {
+    const transactionData = await TransactionService.fetchTransaction(txId);
+
+    if (!transactionData) {
+      return 'missing';
+    }
+
+    if (transactionData.tx_status === 'pending') {
+      return 'pending';
+    }
+
+    return transactionData.tx_status === 'success' ? 'success' : 'failed';
+  }
+}
+
+/**
+ * In-memory sender for local development and tests - no STX or tokens move
+ * Transfers confirm on the next status check unless told to fail or to be lost in transit
+ */
+export class MockPayoutSender implements PayoutSender {
+  name = 'mock';
+  transfers: Array<PayoutTransfer & { txId: string }> = [];
+  failNextSends = 0;
+  dropNextSends = 0;
+  failedTxIds = new Set<string>();
+
+  async signTransfer(transfer: PayoutTransfer): Promise<SignedTransfer> {
+    return { txId: `0x${randomBytes(32).toString('hex')}`, payload: transfer };
+  }
+
+  async broadcast(signed: SignedTransfer): Promise<void> {
+    if (this.failNextSends > 0) {
+      this.failNextSends--;
+      throw new BroadcastRejectedError('Mock broadcast failure');
+    }
+
+    // A broadcast that errors without reaching the node, so the outcome is unknown
+    if (this.dropNextSends > 0) {
+      this.dropNextSends--;
+      throw new Error('Mock broadcast timed out');
+    }
+
+    this.transfers.push({ ...(signed.payload as PayoutTransfer), txId: signed.txId });
+  }
+
+  async getTransactionStatus(txId: string): Promise<PayoutTxStatus> {
+    if (this.failedTxIds.has(txId)) return 'failed';
+    return this.transfers.some(t => t.txId === txId) ? 'success' : 'missing';
+  }
+}
+
+/**
+ * Pick the payout sender from PAYOUT_SENDER ("stacks" or "mock")
+ */
+export function createPayoutSender(): PayoutSender {
+  return process.env.PAYOUT_SENDER === 'mock' ? new MockPayoutSender() : new StacksPayoutSender();
+}
@@ -0,0 +1,298 @@
+import db from '../db';
+import { getStakeAsset, toBaseUnits } from '../types/asset';
+import { BroadcastRejectedError, createPayoutSender, PayoutSender, SignedTransfer } from './payoutSenders';
+import { WebhookService } from './webhookService';
+import { ValidationError } from '../utils/validation';
+
+// Give up on a payout after this many send attempts (admins can requeue it)
+const MAX_ATTEMPTS = parseInt(process.env.PAYOUT_MAX_ATTEMPTS || '5');
+
+// First retry waits this long, then doubles each attempt
+const RETRY_BASE_MS = parseInt(process.env.PAYOUT_RETRY_BASE_MS || '60000');
+
+// Fail a broadcast payout whose transaction the node still hasn't seen after this long
+const BROADCAST_TIMEOUT_MINUTES = parseInt(process.env.PAYOUT_BROADCAST_TIMEOUT_MINUTES || '30');
+
+const PROCESS_INTERVAL_MS = 30 * 1000;
+
+/**
+ * pending → broadcast → confirmed, or failed once retries run out
+ */
+export type PayoutStatus = 'pending' | 'broadcast' | 'confirmed' | 'failed';
+
+export class PayoutService {
+  private static isRunning = false;
+  private static isProcessing = false;
+  private static processInterval: NodeJS.Timeout | null = null;
+  private static sender: PayoutSender = createPayoutSender();
+
+  /**
+   * Swap the signer/broadcaster, e.g. for a MockPayoutSender in tests
+   */
+  static setSender(sender: PayoutSender): void {
+    this.sender = sender;
+  }
+
+  static getSender(): PayoutSender {
+    return this.sender;
+  }
+
+  /**
+   * Start the payout worker
+   * Processes the payout queue every 30 seconds
+   */
+  static start(): void {
+    if (this.isRunning) {
+      console.log('🔄 Payout service already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(`🚀 Starting payout service (${this.sender.name} sender)...`);
+
+    this.processQueue();
+
+    this.processInterval = setInterval(() => {
+      this.processQueue();
+    }, PROCESS_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the payout worker
+   */
+  static stop(): void {
+    if (!this.isRunning) {
+      console.log('⏸️ Payout service already stopped');
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.processInterval) {
+      clearInterval(this.processInterval);
+      this.processInterval = null;
+    }
+    console.log('⏹️ Payout service stopped');
+  }
+
+  /**
+   * Mark a prediction as claimed and queue its payout in one write
+   * @param predictionId - The claimed prediction
+   * @param recipientAddress - Wallet that receives the payout
+   * @param amount - Amount in the pool's stake asset
+   * @returns The claimed prediction and its queued payout
+   * @throws ValidationError if the prediction was already claimed, e.g. by a concurrent request
+   */
+  static async claimAndEnqueue(predictionId: string, recipientAddress: string, amount: number) {
+    const { prediction, payout } = await db.$transaction(async (tx) => {
+      const claimed = await tx.prediction.updateMany({
+        where: { id: predictionId, claimed: false },
+        data: { claimed: true }
+      });
+      if (claimed.count === 0) {
+        throw new ValidationError('Rewards already claimed');
+      }
+
+      return {
+        prediction: await tx.prediction.findUniqueOrThrow({ where: { id: predictionId } }),
+        payout: await tx.payout.create({
+          data: { predictionId, recipientAddress, amount }
+        })
+      };
+    });
+
+    await WebhookService.emit('reward.claimed', {
+      poolId: prediction.poolId,
+      predictionId,
+      walletAddress: recipientAddress,
+      amount,
+      payoutId: payout.id
+    });
+
+    return { prediction, payout };
+  }
+
+  /**
+   * Send due pending payouts and check on broadcast ones
+   */
+  static async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      await this.sendPendingPayouts();
+      await this.checkBroadcastPayouts();
+    } catch (error) {
+      console.error('❌ Error processing payout queue:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Sign and broadcast every pending payout whose retry time has come
+   */
+  static async sendPendingPayouts(): Promise<void> {
+    const duePayouts = await db.payout.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: { lte: new Date() }
+      },
+      include: {
+        prediction: { include: { pool: true } },
+        stake: { include: { pool: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    // One at a time, so the platform wallet's nonces stay in order
+    for (const payout of duePayouts) {
+      const attempts = payout.attempts + 1;
+      // Claims pay out of the prediction's pool, refunds of rejected stakes out of the stake's
+      const asset = getStakeAsset((payout.prediction ?? payout.stake)!.pool);
+      let signed: SignedTransfer;
+
+      try {
+        const amount = toBaseUnits(payout.amount, asset);
+        if (amount <= 0n) {
+          throw new Error('Payout amount rounds to zero');
+        }
+
+        signed = await this.sender.signTransfer({
+          recipient: payout.recipientAddress,
+          amount,
+          asset,
+          memo: `prognos ${payout.id}` // Memos are capped at 34 bytes
+        });
+
+        // Save the txId before broadcasting: once it is stored the payout is never
+        // resent blindly, only confirmed or failed by looking the transaction up
+        const { count } = await db.payout.updateMany({
+          where: { id: payout.id, status: 'pending', amount: payout.amount },
+          data: { status: 'broadcast', txId: signed.txId, attempts, broadcastAt: new Date(), lastError: null }
+        });
+
+        if (count === 0) {
+          continue; // Picked up by another worker, or its amount was changed by a correction
+        }
+      } catch (error) {
+        // Nothing has been broadcast yet, so a retry is safe
+        await this.recordFailure(payout.id, attempts, error);
+        continue;
+      }
+
+      try {
+        await this.sender.broadcast(signed);
+        console.log(`💸 Payout broadcast: ${payout.amount} ${asset.symbol} → ${payout.recipientAddress} (${signed.txId})`);
+      } catch (error) {
+        if (error instanceof BroadcastRejectedError) {
+          await this.recordFailure(payout.id, attempts, error);
+          continue;
+        }
+
+        // The transaction may have reached the node; leave it broadcast so the
+        // status check settles it by txId instead of sending it again
+        const lastError = error instanceof Error ? error.message : 'Unknown error';
+        await db.payout.update({ where: { id: payout.id }, data: { lastError } });
+        console.error(`⚠️ Payout ${payout.id} broadcast outcome unknown, waiting on ${signed.txId}: ${lastError}`);
+      }
+    }
+  }
+
+  /**
+   * Confirm broadcast payouts, send failed ones back for a retry, and fail ones that never reached the node
+   */
+  static async checkBroadcastPayouts(): Promise<void> {
+    const broadcastPayouts = await db.payout.findMany({
+      where: { status: 'broadcast' }
+    });
+
+    for (const payout of broadcastPayouts) {
+      try {
+        const txStatus = await this.sender.getTransactionStatus(payout.txId!);
+
+        if (txStatus === 'success') {
+          await db.payout.update({
+            where: { id: payout.id },
+            data: { status: 'confirmed', confirmedAt: new Date() }
+          });
+          console.log(`✅ Payout confirmed: ${payout.txId}`);
+        } else if (txStatus === 'failed') {
+          await this.recordFailure(payout.id, payout.attempts, new Error(`Transaction ${payout.txId} failed on-chain`));
+        } else if (txStatus === 'missing' && this.isBroadcastExpired(payout.broadcastAt)) {
+          // Not resent automatically: an admin checks the wallet and requeues it with retryPayout
+          const { count } = await db.payout.updateMany({
+            where: { id: payout.id, status: 'broadcast', txId: payout.txId },
+            data: {
+              status: 'failed',
+              lastError: `Transaction ${payout.txId} not found ${BROADCAST_TIMEOUT_MINUTES} minutes after broadcast`
+            }
+          });
+          if (count > 0) {
+            console.error(`❌ Payout ${payout.id} failed: transaction ${payout.txId} never reached the node`);
+          }
+        }
+      } catch (error) {
+        console.error(`❌ Error checking payout ${payout.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Whether a payout has waited longer than BROADCAST_TIMEOUT_MINUTES since its broadcast
+   */
+  private static isBroadcastExpired(broadcastAt: Date | null): boolean {
+    return !broadcastAt || Date.now() - broadcastAt.getTime() > BROADCAST_TIMEOUT_MINUTES * 60 * 1000;
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or fail the payout after MAX_ATTEMPTS
+   */
+  private static async recordFailure(payoutId: string, attempts: number, error: unknown): Promise<void> {
+    const lastError = error instanceof Error ? error.message : 'Unknown error';
+    const exhausted = attempts >= MAX_ATTEMPTS;
+
+    await db.payout.update({
+      where: { id: payoutId },
+      data: {
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        lastError,
+        nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1))
+      }
+    });
+
+    console.error(`❌ Payout ${payoutId} attempt ${attempts} failed${exhausted ? ' (giving up)' : ''}: ${lastError}`);
+  }
+
+  /**
+   * Put a failed payout back in the queue with a fresh set of attempts
+   * @throws Error if the payout does not exist or has not failed
+   */
+  static async retryPayout(payoutId: string) {
+    const payout = await db.payout.findUnique({ where: { id: payoutId } });
+
+    if (!payout) {
+      throw new Error('Payout not found');
+    }
+
+    if (payout.status !== 'failed') {
+      throw new Error('Only failed payouts can be retried');
+    }
+
+    return db.payout.update({
+      where: { id: payoutId },
+      data: { status: 'pending', attempts: 0, nextAttemptAt: new Date() }
+    });
+  }
+
+  /**
+   * Get service status
+   */
+  static getStatus(): { isRunning: boolean; sender: string; intervalMs: number | null } {
+    return {
+      isRunning: this.isRunning,
+      sender: this.sender.name,
+      intervalMs: this.processInterval ? PROCESS_INTERVAL_MS : null
+    };
+  }
+}
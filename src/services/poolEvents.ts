@@ -0,0 +1,40 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Something changed on a pool:
+ * - pool.created: a new pool was published
+ * - pool.vote: a vote was added or changed
+ * - pool.stake: a stake was verified and counts toward the pool
+ * - pool.status: the pool moved to another stage, e.g. awaiting outcome
+ * - pool.resolved: the pool was resolved with an outcome
+ */
+export type PoolEventType = 'pool.created' | 'pool.vote' | 'pool.stake' | 'pool.status' | 'pool.resolved';
+
+export interface PoolEvent {
+  type: PoolEventType;
+  poolId: string;
+  at: Date;
+}
+
+/**
+ * In-process bus that services publish pool changes on
+ * Events only name the pool; listeners load whatever aggregates they need,
+ * so nothing wallet-level travels on the bus
+ */
+export class PoolEvents {
+  private static emitter = new EventEmitter();
+
+  static publish(type: PoolEventType, poolId: string): void {
+    this.emitter.emit('event', { type, poolId, at: new Date() });
+  }
+
+  /**
+   * @returns A function that removes the listener
+   */
+  static subscribe(listener: (event: PoolEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+}
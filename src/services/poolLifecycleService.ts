@@ -0,0 +1,90 @@
+import { Prisma } from '@prisma/client';
+import db, { DbClient } from '../db';
+import { PoolEvents } from './poolEvents';
+import { POOL_STATUSES, POOL_STATUS_TIMESTAMPS, POOL_TRANSITIONS, PoolStatus } from '../types/pool';
+import { ValidationError } from '../utils/validation';
+
+/**
+ * Thrown when a pool is not in a status that allows the requested action
+ */
+export class PoolStatusError extends ValidationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PoolStatusError';
+  }
+}
+
+export class PoolLifecycleService {
+  /**
+   * Check whether a pool may move between two statuses
+   */
+  static canTransition(from: string, to: PoolStatus): boolean {
+    return (POOL_TRANSITIONS[from as PoolStatus] || []).includes(to);
+  }
+
+  /**
+   * Move a pool to a new status and stamp the matching timestamp
+   * The status check and the write happen in one statement, so two racing
+   * transitions can't both succeed
+   * @param poolId - The pool to move
+   * @param to - The new status
+   * @param data - Other pool fields to write along with the status
+   * @param client - Transaction client when called inside db.$transaction;
+   *                 callers in a transaction publish the status event themselves after commit
+   * @throws PoolStatusError if the pool doesn't exist or can't move to the new status
+   */
+  static async transition(
+    poolId: string,
+    to: Exclude<PoolStatus, 'draft'>,
+    data: Prisma.PoolUpdateManyMutationInput = {},
+    client: DbClient = db
+  ): Promise<void> {
+    const allowedFrom = POOL_STATUSES.filter(status => this.canTransition(status, to));
+
+    const result = await client.pool.updateMany({
+      where: { id: poolId, status: { in: allowedFrom } },
+      data: {
+        ...data,
+        status: to,
+        [POOL_STATUS_TIMESTAMPS[to]]: new Date(),
+        isResolved: to === 'resolved'
+      }
+    });
+
+    if (result.count === 0) {
+      const pool = await client.pool.findUnique({ where: { id: poolId }, select: { status: true } });
+      if (!pool) {
+        throw new PoolStatusError('Pool not found');
+      }
+      throw new PoolStatusError(`Pool cannot move from ${pool.status} to ${to}`);
+    }
+
+    if (client === db) {
+      PoolEvents.publish('pool.status', poolId);
+    }
+  }
+
+  /**
+   * Lock every open pool whose deadline has passed
+   * @returns IDs of the pools that were locked
+   */
+  static async lockExpiredPools(): Promise<string[]> {
+    const expiredPools = await db.pool.findMany({
+      where: { status: 'open', deadline: { lt: new Date() } },
+      select: { id: true }
+    });
+
+    const locked: string[] = [];
+    for (const { id } of expiredPools) {
+      try {
+        await this.transition(id, 'locked');
+        locked.push(id);
+      } catch (error) {
+        // Another instance (or an admin edit) moved it first
+        if (!(error instanceof PoolStatusError)) throw error;
+      }
+    }
+
+    return locked;
+  }
+}
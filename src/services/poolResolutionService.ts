@@ -1,5 +1,27 @@
 import db from '../db';
 import { RewardService } from './rewardService';
+import { RewardValidation, ValidationError } from '../utils/validation';
+import { getOutcomeOptions } from '../types/pool';
+import { PoolLifecycleService } from './poolLifecycleService';
+import { LeaseService } from './leaseService';
+import { OutcomeWeight } from './poolStatsService';
+
+// Another instance may take over a pool's resolution after this long, if the holder died mid-way
+const RESOLUTION_LEASE_MS = parseInt(process.env.RESOLUTION_LEASE_MS || '300000');
+
+/**
+ * Lease key held while resolving a pool, so only one instance resolves it
+ */
+const resolutionLeaseKey = (poolId: string) => `pool-resolution:${poolId}`;
+
+/**
+ * An outcome submitted by an admin or oracle
+ * Categorical pools take winningOption, every other pool takes outcomeValue
+ */
+export interface SubmittedOutcome {
+  outcomeValue?: any;
+  winningOption?: any;
+}
 
 export class PoolResolutionService {
   private static isRunning = false;
@@ -45,18 +67,23 @@ export class PoolResolutionService {
   }
 
   /**
-   * Check for expired pools and resolve them automatically
+   * Lock pools whose deadline has passed, then resolve locked pools automatically
+   * Pools that need a submitted outcome are moved to awaiting outcome instead
    */
   static async checkAndResolveExpiredPools(): Promise<void> {
     try {
-      const now = new Date();
-      
-      // Find all unresolved pools where deadline has passed
+      const lockedIds = await PoolLifecycleService.lockExpiredPools();
+      if (lockedIds.length > 0) {
+        console.log(`🔒 Locked ${lockedIds.length} pools past their deadline`);
+      }
+
+      // Find all locked pools
       const expiredPools = await db.pool.findMany({
         where: {
-          isResolved: false,
-          deadline: {
-            lt: now
+          status: 'locked',
+          // Wait until every submitted stake is verified or failed
+          stakes: {
+            none: { status: 'pending' }
           }
         },
         include: {
@@ -72,7 +99,18 @@ export class PoolResolutionService {
       console.log(`🔍 Found ${expiredPools.length} expired pools to resolve`);
 
       for (const pool of expiredPools) {
-        await this.resolvePoolAutomatically(pool.id, pool.title);
+        const handled = await LeaseService.withLease(resolutionLeaseKey(pool.id), RESOLUTION_LEASE_MS, async () => {
+          if (pool.resolutionMode === 'crowd') {
+            await this.resolvePoolAutomatically(pool.id, pool.title);
+          } else {
+            await this.markAwaitingOutcome(pool.id, pool.title);
+          }
+          return true;
+        });
+
+        if (handled === null) {
+          console.log(`⏭️ Pool ${pool.title} is being resolved by another instance`);
+        }
       }
 
     } catch (error) {
@@ -81,10 +119,10 @@ export class PoolResolutionService {
   }
 
   /**
-   * Automatically resolve a pool with a calculated outcome
-   * For testing purposes, we'll use a simple algorithm:
+   * Automatically resolve a crowd pool with a calculated outcome
    * - If there are predictions, calculate outcome based on weighted average
-   * - If no predictions, randomly resolve to 0 or 100
+   *   (categorical pools pick the option with the most weight)
+   * - If no predictions, there is no crowd to average, so wait for an admin outcome
    */
   static async resolvePoolAutomatically(poolId: string, poolTitle?: string): Promise<void> {
     try {
@@ -93,7 +131,11 @@ export class PoolResolutionService {
       // Get pool with predictions
       const pool = await db.pool.findUnique({
         where: { id: poolId },
-        include: { predictions: true }
+        include: {
+          predictions: {
+            include: { stakes: { where: { status: 'verified' } } }
+          }
+        }
       });
 
       if (!pool) {
@@ -101,25 +143,32 @@ export class PoolResolutionService {
         return;
       }
 
-      if (pool.isResolved) {
-        console.log(`⚠️ Pool ${poolId} already resolved`);
+      if (pool.status !== 'locked') {
+        console.log(`⚠️ Pool ${poolId} is ${pool.status}, not locked`);
+        return;
+      }
+
+      if (pool.predictions.length === 0) {
+        await this.markAwaitingOutcome(poolId, poolTitle);
         return;
       }
 
-      let outcomeValue: number;
+      const options = getOutcomeOptions(pool);
 
       // Calculate outcome based on predictions
-      if (pool.predictions.length > 0) {
-        outcomeValue = this.calculateAutomaticOutcome(pool.predictions);
-      } else {
-        // No predictions - randomly resolve to 0 or 100
-        outcomeValue = Math.random() < 0.5 ? 0 : 100;
+      const outcomeValue = this.estimateOutcome(pool);
+
+      // A tie between options cannot be broken by the crowd
+      if (outcomeValue === null) {
+        await this.markAwaitingOutcome(poolId, poolTitle);
+        return;
       }
 
       // Resolve the pool using the existing RewardService
-      await RewardService.resolvePool(poolId, outcomeValue, false);
+      await RewardService.resolvePool(poolId, outcomeValue);
 
-      console.log(`✅ Pool resolved automatically: ${poolTitle || poolId} → Outcome: ${outcomeValue}`);
+      const outcomeLabel = options ? options[outcomeValue] : outcomeValue;
+      console.log(`✅ Pool resolved automatically: ${poolTitle || poolId} → Outcome: ${outcomeLabel}`);
 
     } catch (error) {
       console.error(`❌ Error auto-resolving pool ${poolId}:`, error);
@@ -127,26 +176,128 @@ export class PoolResolutionService {
   }
 
   /**
-   * Calculate automatic outcome based on predictions
-   * Uses weighted average of all predictions (including zero-stake votes)
+   * Move an expired pool to awaiting outcome until an admin or oracle submits one
    */
-  private static calculateAutomaticOutcome(predictions: any[]): number {
-    if (predictions.length === 0) {
-      return Math.random() < 0.5 ? 0 : 100;
+  static async markAwaitingOutcome(poolId: string, poolTitle?: string): Promise<void> {
+    try {
+      await PoolLifecycleService.transition(poolId, 'awaiting-outcome');
+
+      console.log(`⏳ Pool awaiting outcome: ${poolTitle || poolId}`);
+    } catch (error) {
+      console.error(`❌ Error marking pool ${poolId} as awaiting outcome:`, error);
+    }
+  }
+
+  /**
+   * Resolve a pool with an outcome submitted by an admin or oracle
+   * @param poolId - The pool ID to resolve
+   * @param outcome - The outcome value (0-100), or the winning option of a categorical pool
+   * @param submittedBy - Who submitted the outcome (admin id or oracle address)
+   * @throws ValidationError if the pool cannot take an outcome yet
+   */
+  static async submitOutcome(poolId: string, outcome: SubmittedOutcome, submittedBy: string): Promise<void> {
+    const pool = await db.pool.findUnique({ where: { id: poolId } });
+
+    if (!pool) {
+      throw new ValidationError('Pool not found');
+    }
+
+    if (pool.status === 'resolved') {
+      throw new ValidationError('Pool is already resolved');
+    }
+
+    if (pool.status === 'open' && new Date() <= pool.deadline) {
+      throw new ValidationError('Outcome cannot be submitted before the pool deadline');
+    }
+
+    if (!PoolLifecycleService.canTransition(pool.status, 'resolved') && pool.status !== 'open') {
+      throw new ValidationError(`Pool is ${pool.status} and cannot take an outcome`);
+    }
+
+    const options = getOutcomeOptions(pool);
+    let outcomeValue: number;
+
+    if (options) {
+      outcomeValue = RewardValidation.validateWinningOption(pool, outcome.winningOption);
+    } else {
+      RewardValidation.validateOutcomeValue(outcome.outcomeValue);
+      outcomeValue = parseFloat(outcome.outcomeValue);
     }
 
+    const pendingStakes = await db.stake.count({ where: { poolId, status: 'pending' } });
+    if (pendingStakes > 0) {
+      throw new ValidationError('Pool still has stakes waiting for on-chain confirmation');
+    }
+
+    const resolved = await LeaseService.withLease(resolutionLeaseKey(poolId), RESOLUTION_LEASE_MS, async () => {
+      // The deadline passed but the resolver hasn't locked the pool yet
+      if (pool.status === 'open') {
+        await PoolLifecycleService.transition(poolId, 'locked');
+      }
+
+      await RewardService.resolvePool(poolId, outcomeValue, submittedBy);
+      return true;
+    });
+
+    if (resolved === null) {
+      throw new ValidationError('Pool is already being resolved, try again shortly');
+    }
+
+    const outcomeLabel = options ? options[outcomeValue] : outcomeValue;
+    console.log(`✅ Pool resolved by ${submittedBy}: ${pool.title} → Outcome: ${outcomeLabel}`);
+  }
+
+  /**
+   * The outcome the crowd currently points to, as crowd pools are resolved
+   * @param pool - The pool with its predictions and their verified stakes
+   * @returns The outcome value (the winning option's index for categorical pools),
+   *          or null when there are no predictions or the options are tied
+   */
+  static estimateOutcome(pool: { outcomeOptions?: unknown; predictions: any[] }): number | null {
+    const weights = pool.predictions.flatMap(prediction => {
+      const stakes = RewardService.getPredictionStakes(prediction);
+
+      // Unstaked votes count once at the prediction's value
+      return stakes.length > 0
+        ? stakes.map(stake => ({ predictionValue: stake.predictionValue, weight: stake.amount }))
+        : [{ predictionValue: prediction.predictionValue, weight: 1 }];
+    });
+
+    return this.estimateFromWeights(pool, weights);
+  }
+
+  /**
+   * The outcome the crowd points to, from prediction values already weighted
+   * @param pool - The pool, for its outcome options
+   * @param weights - Every verified stake at its own value, plus 1 per unstaked vote;
+   *                  entries with the same value may be summed
+   * @returns As estimateOutcome
+   */
+  static estimateFromWeights(pool: { outcomeOptions?: unknown }, weights: OutcomeWeight[]): number | null {
+    if (weights.length === 0) {
+      return null;
+    }
+
+    const options = getOutcomeOptions(pool);
+    return options
+      ? this.calculateCategoricalOutcome(options, weights)
+      : this.calculateAutomaticOutcome(weights);
+  }
+
+  /**
+   * Calculate automatic outcome based on predictions
+   * Uses the weighted average of every prediction value
+   */
+  private static calculateAutomaticOutcome(weights: OutcomeWeight[]): number {
     let totalWeight = 0;
     let weightedSum = 0;
 
-    for (const prediction of predictions) {
+    for (const entry of weights) {
       // Convert prediction to numeric value
-      const numericPrediction = RewardService.parseNumericPrediction(prediction.predictionValue);
-      
-      // Use stake amount as weight, but minimum weight of 1 for all predictions
-      const weight = Math.max(prediction.stakeAmount, 1);
-      
-      weightedSum += numericPrediction * weight;
-      totalWeight += weight;
+      const numericPrediction = RewardService.parseNumericPrediction(entry.predictionValue);
+
+      weightedSum += numericPrediction * entry.weight;
+      totalWeight += entry.weight;
     }
 
     const outcome = Math.round(weightedSum / totalWeight);
@@ -155,13 +306,34 @@ export class PoolResolutionService {
     return Math.max(0, Math.min(100, outcome));
   }
 
+  /**
+   * Pick the winning option of a categorical pool from its weighted predictions
+   * @returns The index of the option with the most weight, or null on a tie
+   */
+  private static calculateCategoricalOutcome(options: string[], weights: OutcomeWeight[]): number | null {
+    const optionWeights = options.map(() => 0);
+
+    for (const entry of weights) {
+      const index = RewardService.parsePoolPrediction({ outcomeOptions: options }, entry.predictionValue);
+      if (index !== -1) {
+        optionWeights[index] += entry.weight;
+      }
+    }
+
+    const topWeight = Math.max(...optionWeights);
+    const leaders = optionWeights.filter(weight => weight === topWeight);
+
+    return leaders.length === 1 ? optionWeights.indexOf(topWeight) : null;
+  }
+
   /**
    * Get service status
    */
-  static getStatus(): { isRunning: boolean; intervalMs: number | null } {
+  static getStatus(): { isRunning: boolean; intervalMs: number | null; instanceId: string } {
     return {
       isRunning: this.isRunning,
-      intervalMs: this.checkInterval ? 60000 : null
+      intervalMs: this.checkInterval ? 60000 : null,
+      instanceId: LeaseService.instanceId
     };
   }
 
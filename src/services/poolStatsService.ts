@@ -0,0 +1,155 @@
+import db from '../db';
+import { getOutcomeOptions } from '../types/pool';
+
+export interface OptionTotal {
+  option: string;
+  totalStake: number; // Sum of verified stakes on the option
+  predictions: number; // Predictions currently on the option
+}
+
+export interface PoolAggregates {
+  predictions: number; // Every prediction, staked or not
+  stakers: number; // Predictions backed by verified stake
+  verifiedStakes: number;
+  pendingStakes: number; // Stakes still waiting for on-chain confirmation
+}
+
+/**
+ * A prediction value and the weight behind it when estimating the crowd's outcome
+ */
+export interface OutcomeWeight {
+  predictionValue: string;
+  weight: number; // Staked amount, or the number of unstaked votes
+}
+
+export class PoolStatsService {
+  /**
+   * Attach per-pool aggregates (and option totals for categorical pools)
+   * Used by list endpoints in place of each pool's full prediction list
+   * @param pools - Pools as loaded from the database
+   * @returns The same pools with stats and optionTotals fields
+   */
+  static async withAggregates<T extends { id: string; outcomeOptions: unknown }>(
+    pools: T[]
+  ): Promise<Array<T & { stats: PoolAggregates; optionTotals: OptionTotal[] | null }>> {
+    const poolIds = pools.map(pool => pool.id);
+
+    const [predictionCounts, stakerCounts, stakeCounts] = poolIds.length > 0
+      ? await Promise.all([
+          db.prediction.groupBy({
+            by: ['poolId'],
+            where: { poolId: { in: poolIds } },
+            _count: { _all: true }
+          }),
+          db.prediction.groupBy({
+            by: ['poolId'],
+            where: { poolId: { in: poolIds }, stakeAmount: { gt: 0 } },
+            _count: { _all: true }
+          }),
+          db.stake.groupBy({
+            by: ['poolId', 'status'],
+            where: { poolId: { in: poolIds }, status: { in: ['verified', 'pending'] } },
+            _count: { _all: true }
+          })
+        ])
+      : [[], [], []];
+
+    const countFor = (groups: Array<{ poolId: string; _count: { _all: number } }>, poolId: string) =>
+      groups.find(group => group.poolId === poolId)?._count._all || 0;
+
+    const withTotals = await this.withOptionTotals(pools);
+
+    return withTotals.map(pool => ({
+      ...pool,
+      stats: {
+        predictions: countFor(predictionCounts, pool.id),
+        stakers: countFor(stakerCounts, pool.id),
+        verifiedStakes: countFor(stakeCounts.filter(group => group.status === 'verified'), pool.id),
+        pendingStakes: countFor(stakeCounts.filter(group => group.status === 'pending'), pool.id)
+      }
+    }));
+  }
+
+  /**
+   * Attach per-option stake totals to categorical pools
+   * Other pools are returned with optionTotals set to null
+   * @param pools - Pools as loaded from the database
+   * @returns The same pools with an optionTotals field
+   */
+  static async withOptionTotals<T extends { id: string; outcomeOptions: unknown }>(
+    pools: T[]
+  ): Promise<Array<T & { optionTotals: OptionTotal[] | null }>> {
+    const categoricalIds = pools.filter(pool => getOutcomeOptions(pool)).map(pool => pool.id);
+
+    const [stakeGroups, predictionGroups] = categoricalIds.length > 0
+      ? await Promise.all([
+          db.stake.groupBy({
+            by: ['poolId', 'predictionValue'],
+            where: { poolId: { in: categoricalIds }, status: 'verified' },
+            _sum: { amount: true }
+          }),
+          db.prediction.groupBy({
+            by: ['poolId', 'predictionValue'],
+            where: { poolId: { in: categoricalIds } },
+            _count: { _all: true }
+          })
+        ])
+      : [[], []];
+
+    return pools.map(pool => {
+      const options = getOutcomeOptions(pool);
+      if (!options) {
+        return { ...pool, optionTotals: null };
+      }
+
+      // Stored predictions use the option's declared name, but match case-insensitively to be safe
+      const matches = (option: string, group: { poolId: string; predictionValue: string }) =>
+        group.poolId === pool.id && group.predictionValue.toLowerCase() === option.toLowerCase();
+
+      const optionTotals = options.map(option => ({
+        option,
+        totalStake: stakeGroups
+          .filter(group => matches(option, group))
+          .reduce((sum, group) => sum + (group._sum.amount || 0), 0),
+        predictions: predictionGroups
+          .filter(group => matches(option, group))
+          .reduce((sum, group) => sum + group._count._all, 0)
+      }));
+
+      return { ...pool, optionTotals };
+    });
+  }
+
+  /**
+   * Sum a pool's weight per prediction value straight from the database, for estimating its outcome
+   * without loading every prediction: verified stakes at their own value, legacy predictions at their
+   * stakeAmount, and 1 per unstaked vote
+   * @param poolId - The pool to weigh
+   */
+  static async getOutcomeWeights(poolId: string): Promise<OutcomeWeight[]> {
+    const [stakeGroups, legacyGroups, voteGroups] = await Promise.all([
+      db.stake.groupBy({
+        by: ['predictionValue'],
+        where: { poolId, status: 'verified' },
+        _sum: { amount: true }
+      }),
+      // Predictions staked before the stake ledger carry their amount only in stakeAmount
+      db.prediction.groupBy({
+        by: ['predictionValue'],
+        where: { poolId, stakeAmount: { gt: 0 }, stakes: { none: { status: 'verified' } } },
+        _sum: { stakeAmount: true }
+      }),
+      db.prediction.groupBy({
+        by: ['predictionValue'],
+        where: { poolId, stakeAmount: { lte: 0 }, stakes: { none: { status: 'verified' } } },
+        _count: { _all: true }
+      })
+    ]);
+
+    return [
+      ...stakeGroups.map(group => ({ predictionValue: group.predictionValue, weight: group._sum.amount || 0 })),
+      ...legacyGroups.map(group => ({ predictionValue: group.predictionValue, weight: group._sum.stakeAmount || 0 })),
+      ...voteGroups.map(group => ({ predictionValue: group.predictionValue, weight: group._count._all }))
+    ];
+  }
+}
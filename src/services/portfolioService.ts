@@ -0,0 +1,163 @@
+import db from '../db';
+import { ValidationError } from '../utils/validation';
+
+/**
+ * Where a position stands:
+ * - open: the pool is not resolved yet (including locked pools and pools waiting for an outcome)
+ * - resolved: the pool is resolved (or cancelled, with the stake as a refund) and the reward is not claimed
+ * - claimed: the reward has been claimed and its payout queued
+ */
+export const POSITION_STATUSES = ['open', 'resolved', 'claimed'] as const;
+export type PositionStatus = typeof POSITION_STATUSES[number];
+
+const isSettled = (poolStatus: string) => poolStatus === 'resolved' || poolStatus === 'cancelled';
+
+export interface PortfolioFilters {
+  status?: string;
+  tag?: string;
+}
+
+export interface Position {
+  predictionId: string;
+  status: PositionStatus;
+  pool: {
+    id: string;
+    title: string;
+    tag: string;
+    deadline: Date;
+    status: string;
+    outcomeValue: number | null;
+    winningOption: string | null;
+  };
+  predictionValue: string;
+  stakeAmount: number; // Verified stake
+  pendingStake: number; // Stake still waiting for on-chain confirmation
+  claimableReward: number | null;
+  payout: {
+    id: string;
+    amount: number;
+    status: string;
+    txId: string | null;
+    createdAt: Date;
+  } | null;
+}
+
+export interface PortfolioSummary {
+  totalStaked: number; // Verified stake across every position
+  totalWon: number; // Rewards earned on resolved pools, claimed or not
+  totalRefunded: number; // Stakes handed back by cancelled pools, claimed or not
+  totalClaimable: number; // Rewards and refunds not claimed yet
+  totalClaimed: number;
+  netPnL: number; // totalWon minus the stake put into resolved pools
+}
+
+export class PortfolioService {
+  /**
+   * Get a wallet's positions grouped by status, with totals
+   * Totals cover the positions that match the filters
+   * @param walletAddress - The user's wallet address
+   * @param filters - Optional status and tag filters
+   * @returns null if the wallet has never used the platform
+   * @throws ValidationError on an unknown status
+   */
+  static async getPortfolio(walletAddress: string, filters: PortfolioFilters = {}) {
+    if (filters.status !== undefined && !POSITION_STATUSES.includes(filters.status as PositionStatus)) {
+      throw new ValidationError(`Status must be one of: ${POSITION_STATUSES.join(', ')}`);
+    }
+
+    const user = await db.user.findUnique({ where: { walletAddress } });
+    if (!user) {
+      return null;
+    }
+
+    const poolFilter = filters.tag ? { tag: filters.tag.toLowerCase() } : undefined;
+
+    const [predictions, pendingStakes] = await Promise.all([
+      db.prediction.findMany({
+        where: { userWalletAddress: walletAddress, pool: poolFilter },
+        include: { pool: true, payout: true },
+        orderBy: { createdAt: 'desc' }
+      }),
+      // Pending stakes are only linked to a prediction once verified, so match them by pool
+      db.stake.findMany({
+        where: { userWalletAddress: walletAddress, status: 'pending', pool: poolFilter },
+        include: { pool: true },
+        orderBy: { createdAt: 'desc' }
+      })
+    ]);
+
+    const pendingFor = (poolId: string) =>
+      pendingStakes.filter(stake => stake.poolId === poolId).reduce((sum, stake) => sum + stake.amount, 0);
+
+    const positions: Position[] = predictions.map(prediction => ({
+      predictionId: prediction.id,
+      status: prediction.claimed ? 'claimed' : isSettled(prediction.pool.status) ? 'resolved' : 'open',
+      pool: {
+        id: prediction.pool.id,
+        title: prediction.pool.title,
+        tag: prediction.pool.tag,
+        deadline: prediction.pool.deadline,
+        status: prediction.pool.status,
+        outcomeValue: prediction.pool.outcomeValue,
+        winningOption: prediction.pool.winningOption
+      },
+      predictionValue: prediction.predictionValue,
+      stakeAmount: prediction.stakeAmount,
+      pendingStake: pendingFor(prediction.poolId),
+      claimableReward: prediction.claimableReward,
+      payout: prediction.payout && {
+        id: prediction.payout.id,
+        amount: prediction.payout.amount,
+        status: prediction.payout.status,
+        txId: prediction.payout.txId,
+        createdAt: prediction.payout.createdAt
+      }
+    }));
+
+    // First stakes on a pool have no prediction until verified, so they are listed on their own
+    const predictedPools = new Set(predictions.map(prediction => prediction.poolId));
+    const unmatchedStakes = pendingStakes.filter(stake => !predictedPools.has(stake.poolId));
+
+    const matching = positions.filter(p => !filters.status || p.status === filters.status);
+    const settled = matching.filter(p => p.status !== 'open');
+    // A cancelled pool's refund only hands the stake back, so it is neither won nor lost
+    const won = settled.filter(p => p.pool.status === 'resolved');
+    const refunded = settled.filter(p => p.pool.status === 'cancelled');
+
+    const summary: PortfolioSummary = {
+      totalStaked: matching.reduce((sum, p) => sum + p.stakeAmount, 0),
+      totalWon: won.reduce((sum, p) => sum + (p.claimableReward || 0), 0),
+      totalRefunded: refunded.reduce((sum, p) => sum + (p.claimableReward || 0), 0),
+      totalClaimable: settled
+        .filter(p => p.status === 'resolved')
+        .reduce((sum, p) => sum + (p.claimableReward || 0), 0),
+      totalClaimed: settled
+        .filter(p => p.status === 'claimed')
+        .reduce((sum, p) => sum + (p.claimableReward || 0), 0),
+      netPnL: won.reduce((sum, p) => sum + (p.claimableReward || 0) - p.stakeAmount, 0)
+    };
+
+    return {
+      walletAddress,
+      filters,
+      summary,
+      open: matching.filter(p => p.status === 'open'),
+      resolved: matching.filter(p => p.status === 'resolved'),
+      // Most recent claim first
+      claimed: matching
+        .filter(p => p.status === 'claimed')
+        .sort((a, b) => (b.payout?.createdAt.getTime() || 0) - (a.payout?.createdAt.getTime() || 0)),
+      pendingStakes: !filters.status || filters.status === 'open'
+        ? unmatchedStakes.map(stake => ({
+            id: stake.id,
+            poolId: stake.poolId,
+            poolTitle: stake.pool.title,
+            predictionValue: stake.predictionValue,
+            amount: stake.amount,
+            transactionId: stake.transactionId,
+            createdAt: stake.createdAt
+          }))
+        : []
+    };
+  }
+}
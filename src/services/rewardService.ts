@@ -1,9 +1,156 @@
-import db from '../db';
+import { Prisma } from '@prisma/client';
+import db, { DbClient } from '../db';
+import { FeeService } from './feeService';
+import { getScoringStrategy, linearScore, quadraticScore, resolveScoringParams } from './scoringStrategies';
+import { getOutcomeOptions } from '../types/pool';
+import { PoolEvents } from './poolEvents';
+import { WebhookService } from './webhookService';
+import { PoolLifecycleService, PoolStatusError } from './poolLifecycleService';
+import { RewardValidation, ValidationError } from '../utils/validation';
+import { STX_ASSET_ID } from '../types/asset';
+
+// Resolving and cancelling write every prediction of a pool in one transaction
+const RESOLUTION_TIMEOUT_MS = 30 * 1000;
+
+// Times to recompute a resolution when stakes keep being verified underneath it
+const RESOLUTION_ATTEMPTS = 3;
+
+// Unstaked votes earn a fixed accuracy reward that nobody staked, so it is only paid out of the
+// platform wallet when an operator funds it; otherwise it is shown but never claimable
+export const VOTE_REWARDS_FUNDED = process.env.VOTE_REWARDS_FUNDED === 'true';
+
+// Bump whenever calculateRewards or a scoring strategy changes how rewards come out,
+// so stored resolutions say which rules produced them
+export const REWARD_FORMULA_VERSION = 1;
+
+// Most hypothetical outcomes a single preview can ask about
+export const MAX_PREVIEW_OUTCOMES = 20;
+
+/**
+ * A stake was verified between reading a pool and resolving it, so its rewards are out of date
+ */
+class StakesChangedError extends ValidationError {
+  constructor(poolId: string) {
+    super(`Stakes on pool ${poolId} changed while it was being resolved, try again`);
+    this.name = 'StakesChangedError';
+  }
+}
+
+/**
+ * A stake someone is thinking about making, and the outcomes to try it against
+ * Outcomes are 0-100 numbers, or option names for categorical pools
+ */
+export interface StakePreviewRequest {
+  predictionValue: string;
+  stakeAmount: number;
+  outcomes: Array<number | string>;
+  walletAddress?: string; // Adds the stake to this wallet's existing prediction, if it has one
+}
+
+/**
+ * One prediction's line in a resolution's audit trail
+ */
+export interface RewardAuditRow {
+  predictionId: string;
+  userWalletAddress: string;
+  predictionValue: string;
+  numericPrediction: number;
+  distance: number | null;
+  stakeAmount: number;
+  score: number;
+  weightedScore: number;
+  reward: number | null;
+  voteReward: number;
+  stakes: Array<{
+    stakeId: string | null;
+    transactionId: string | null;
+    predictionValue: string;
+    amount: number;
+    numericPrediction: number;
+    score: number;
+    weightedScore: number;
+    reward: number | null;
+  }>;
+}
+
+/**
+ * What a resolution was decided on; corrections also say what they replaced and why
+ */
+export interface ResolutionDetails {
+  outcomeValue: number;
+  winningOption: string | null;
+  submittedBy: string | null;
+  correctsId?: string | null;
+  correctionReason?: string;
+  adjustments?: RewardAdjustment[];
+}
+
+/**
+ * One wallet's line in an outcome correction
+ * Claimed rewards stay paid, so any difference becomes a debt instead
+ */
+export interface RewardAdjustment {
+  predictionId: string;
+  walletAddress: string;
+  claimed: boolean;
+  payoutAdjusted: boolean; // Claimed, but the payout had not gone out yet, so it was changed instead
+  oldReward: number;
+  newReward: number;
+  delta: number; // newReward - oldReward
+  debt: { amount: number; owedBy: RewardDebtOwner } | null;
+}
+
+/**
+ * "wallet" when a claimed reward was overpaid, "platform" when it was underpaid
+ */
+export type RewardDebtOwner = 'wallet' | 'platform';
+
+export interface OutcomePreview {
+  outcome: number | string;
+  outcomeValue: number; // The outcome as scored: the number, or the option's index
+  score: number;
+  reward: number; // The new stake's share of the pool
+  positionReward: number; // The whole prediction's reward, including earlier stakes
+  profit: number; // reward - stakeAmount
+  roi: number; // profit / stakeAmount
+}
+
+export interface StakeResult {
+  stake: any;
+  numericPrediction: number;
+  score: number;
+  weighted: number;
+  reward: number | null;
+}
 
 export interface PredictionResult {
   prediction: any;
-  score: number;
+  numericPrediction: number; // Stake-weighted for predictions backed by several stakes
+  score: number; // Stake-weighted for predictions backed by several stakes
   weighted: number;
+  reward: number | null; // What the prediction can claim
+  voteReward: number; // Fixed accuracy reward of an unstaked vote, claimable only when VOTE_REWARDS_FUNDED
+  stakes: StakeResult[];
+}
+
+export interface RewardCalculation {
+  scoringStrategy: string;
+  scoringParams: Record<string, any>;
+  protocolFeeBps: number;
+  protocolFee: number;
+  distributedStake: number;
+  totalWeighted: number;
+  stakesRefunded: boolean; // Nobody's stake scored, so every stake is paid back instead
+  results: PredictionResult[];
+}
+
+interface ScoredPool {
+  totalStake: number;
+  protocolFeeBps?: number | null;
+  scoringStrategy: string;
+  scoringParams: unknown;
+  outcomeOptions?: unknown;
+  stakeAsset?: string;
 }
 
 export class RewardService {
@@ -15,8 +162,7 @@ export class RewardService {
    * @returns Score between 0 and 1 (1 being perfect prediction)
    */
   static calculateScore(predictionValue: number, outcomeValue: number): number {
-    const distance = Math.abs(predictionValue - outcomeValue);
-    return 1 / (distance + 1);
+    return linearScore(predictionValue, outcomeValue);
   }
 
   /**
@@ -27,8 +173,7 @@ export class RewardService {
    * @returns Score between 0 and 1 (1 being perfect prediction)
    */
   static calculateQuadraticScore(predictionValue: number, outcomeValue: number): number {
-    const distance = Math.abs(predictionValue - outcomeValue);
-    return 1 / (distance * distance + 1);
+    return quadraticScore(predictionValue, outcomeValue);
   }
 
   /**
@@ -42,171 +187,950 @@ export class RewardService {
     return parseFloat(predictionValue);
   }
 
+  /**
+   * Convert a prediction to the number the pool is scored on
+   * @param pool - The pool (categorical pools declare outcomeOptions)
+   * @param predictionValue - The stored prediction
+   * @returns The option's index for categorical pools (-1 if it matches none), otherwise parseNumericPrediction
+   */
+  static parsePoolPrediction(pool: { outcomeOptions?: unknown }, predictionValue: string): number {
+    const options = getOutcomeOptions(pool);
+    if (!options) {
+      return this.parseNumericPrediction(predictionValue);
+    }
+
+    const lower = predictionValue.trim().toLowerCase();
+    return options.findIndex(option => option.toLowerCase() === lower);
+  }
+
+  /**
+   * Get the stakes that back a prediction
+   * Uses the prediction's verified Stake rows when it has any, otherwise treats
+   * its stakeAmount as a single stake (hypothetical and pre-ledger predictions)
+   */
+  static getPredictionStakes(prediction: any): Array<{ id?: string; predictionValue: string; amount: number }> {
+    const stakes = Array.isArray(prediction.stakes)
+      ? prediction.stakes.filter((s: any) => s.status === 'verified')
+      : [];
+
+    if (stakes.length > 0) {
+      return stakes;
+    }
+
+    return prediction.stakeAmount > 0
+      ? [{ predictionValue: prediction.predictionValue, amount: prediction.stakeAmount }]
+      : [];
+  }
+
+  /**
+   * Score predictions with the pool's scoring strategy and split the pool after the protocol fee
+   * Every stake is scored on its own prediction value, so topping up on a different
+   * side does not rewrite earlier stakes
+   * Does not touch the database, so it can back both resolution and previews
+   * @param pool - The pool's stake total and scoring configuration
+   * @param predictions - All predictions of the pool, with their verified stakes
+   * @param outcomeValue - The actual (or hypothetical) outcome value, or the winning option's index
+   * @returns Score, weighted score and reward for every prediction and stake
+   */
+  static calculateRewards(pool: ScoredPool, predictions: any[], outcomeValue: number): RewardCalculation {
+    const strategy = getScoringStrategy(pool.scoringStrategy);
+    const params = resolveScoringParams(strategy, pool.scoringParams);
+
+    // Stakers only compete with other stakers for the pool, so each group is scored on its own
+    const scoreGroup = <T extends { predictionValue: string }>(group: T[]) => {
+      const numericPredictions = group.map(entry => this.parsePoolPrediction(pool, entry.predictionValue));
+      const scores = strategy.scorePredictions(numericPredictions, outcomeValue, params);
+      return group.map((entry, i) => ({ entry, numericPrediction: numericPredictions[i], score: scores[i] }));
+    };
+
+    const stakeEntries = predictions.flatMap(prediction =>
+      this.getPredictionStakes(prediction).map(stake => ({ prediction, stake, predictionValue: stake.predictionValue }))
+    );
+    const stakedPredictions = new Set(stakeEntries.map(e => e.prediction));
+
+    // Calculate scores and weighted scores, one per stake
+    let totalWeighted = 0;
+    const stakeResults = new Map<any, StakeResult[]>();
+
+    for (const { entry, numericPrediction, score } of scoreGroup(stakeEntries)) {
+      const weighted = score * entry.stake.amount;
+      totalWeighted += weighted;
+
+      const results = stakeResults.get(entry.prediction) || [];
+      results.push({ stake: entry.stake, numericPrediction, score, weighted, reward: null });
+      stakeResults.set(entry.prediction, results);
+    }
+
+    // The fixed rewards for unstaked predictions are STX amounts, so SIP-010 pools don't have them
+    const hasVoteRewards = !pool.stakeAsset || pool.stakeAsset === STX_ASSET_ID;
+
+    const unstakedResults: PredictionResult[] = [];
+    for (const { entry: prediction, numericPrediction, score } of scoreGroup(predictions.filter(p => !stakedPredictions.has(p)))) {
+      // Non-staked prediction - base reward based on accuracy
+      const voteReward = !hasVoteRewards ? 0 : score > 0.5 ? 5 : 1; // 5 STX for good predictions, 1 STX participation
+      unstakedResults.push({
+        prediction,
+        numericPrediction,
+        score,
+        weighted: 0,
+        reward: VOTE_REWARDS_FUNDED && voteReward > 0 ? voteReward : null,
+        voteReward,
+        stakes: []
+      });
+    }
+
+    // When stakes exist but none of them scored (nobody picked the winning option), there is
+    // nothing to split the pool by, so every stake is refunded as if the pool were cancelled
+    const stakesRefunded = stakeEntries.length > 0 && totalWeighted === 0;
+
+    // The protocol fee comes off the top before anything is shared
+    const protocolFeeBps = FeeService.getFeeBps(pool);
+    const protocolFee = totalWeighted > 0 ? FeeService.calculateFee(pool.totalStake, protocolFeeBps) : 0;
+    const distributedStake = pool.totalStake - protocolFee;
+
+    // Staked predictions share the pool stake proportionally, stake by stake
+    const stakedResults: PredictionResult[] = [];
+    for (const [prediction, stakes] of stakeResults) {
+      const amount = stakes.reduce((sum, r) => sum + r.stake.amount, 0);
+      const weighted = stakes.reduce((sum, r) => sum + r.weighted, 0);
+
+      for (const result of stakes) {
+        if (stakesRefunded) {
+          result.reward = result.stake.amount;
+        } else if (totalWeighted > 0) {
+          result.reward = (result.weighted / totalWeighted) * distributedStake;
+        }
+      }
+
+      stakedResults.push({
+        prediction,
+        numericPrediction: stakes.reduce((sum, r) => sum + r.numericPrediction * r.stake.amount, 0) / amount,
+        score: weighted / amount,
+        weighted,
+        reward: totalWeighted > 0 || stakesRefunded ? stakes.reduce((sum, r) => sum + r.reward!, 0) : null,
+        voteReward: 0,
+        stakes
+      });
+    }
+
+    return {
+      scoringStrategy: strategy.name,
+      scoringParams: params,
+      protocolFeeBps,
+      protocolFee,
+      distributedStake,
+      totalWeighted,
+      stakesRefunded,
+      results: [...stakedResults, ...unstakedResults]
+    };
+  }
+
   /**
    * Resolve a pool and calculate rewards for all predictions
+   * Uses the scoring strategy configured on the pool
    * @param poolId - The pool ID to resolve
-   * @param outcomeValue - The actual outcome value (0-100)
-   * @param useQuadraticScoring - Whether to use quadratic scoring (default: false)
+   * @param outcomeValue - The actual outcome value (0-100), or the winning option's index for categorical pools
+   * @param submittedBy - Admin or oracle that submitted the outcome, for pools not resolved by the crowd
    * @returns Promise<void>
    */
-  static async resolvePool(
-    poolId: string, 
-    outcomeValue: number, 
-    useQuadraticScoring: boolean = false
-  ): Promise<void> {
+  static async resolvePool(poolId: string, outcomeValue: number, submittedBy?: string): Promise<void> {
     // Validate outcome value
     if (outcomeValue < 0 || outcomeValue > 100) {
       throw new Error('Outcome value must be between 0 and 100');
     }
 
-    // Get pool and all predictions
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { pool, calculation, winningOption } = await this.writeResolution(poolId, outcomeValue, submittedBy);
+
+        PoolEvents.publish('pool.status', poolId);
+        PoolEvents.publish('pool.resolved', poolId);
+        await WebhookService.emit('pool.resolved', {
+          poolId,
+          title: pool.title,
+          tag: pool.tag,
+          outcomeValue,
+          winningOption,
+          totalStake: pool.totalStake,
+          protocolFee: calculation.protocolFee,
+          stakesRefunded: calculation.stakesRefunded,
+          predictions: pool.predictions.length
+        });
+
+        if (calculation.stakesRefunded) {
+          console.log(`↩️ Pool ${poolId}: no stake scored on the outcome, every stake refunded`);
+        }
+        return;
+      } catch (error) {
+        if (!(error instanceof StakesChangedError) || attempt >= RESOLUTION_ATTEMPTS) throw error;
+        console.log(`🔁 Pool ${poolId}: a stake was verified mid-resolution, recomputing rewards`);
+      }
+    }
+  }
+
+  /**
+   * Compute and store a pool's rewards, fee, audit trail and resolved status in one transaction
+   * @throws StakesChangedError if a stake was verified after the rewards were computed
+   */
+  private static async writeResolution(poolId: string, outcomeValue: number, submittedBy?: string) {
+    // Rewards, the fee and the status land together or not at all; if another resolution
+    // got there first, the status transition fails and everything rolls back
+    return db.$transaction(async (tx) => {
+      // Get pool and all predictions with the stakes behind them
+      const pool = await tx.pool.findUnique({
+        where: { id: poolId },
+        include: {
+          predictions: {
+            include: { stakes: { where: { status: 'verified' } } }
+          }
+        }
+      });
+
+      if (!pool) {
+        throw new Error('Pool not found');
+      }
+
+      if (pool.status === 'resolved') {
+        throw new Error('Pool is already resolved');
+      }
+
+      // Checked again atomically when the pool is marked resolved
+      if (!PoolLifecycleService.canTransition(pool.status, 'resolved')) {
+        throw new Error(`Pool is ${pool.status} and cannot be resolved`);
+      }
+
+      const options = getOutcomeOptions(pool);
+      if (options && !(Number.isInteger(outcomeValue) && outcomeValue < options.length)) {
+        throw new Error('Outcome must be the index of one of the pool\'s options');
+      }
+      const winningOption = options ? options[outcomeValue] : null;
+      const resolution = { outcomeValue, winningOption, outcomeSubmittedBy: submittedBy };
+
+      const calculation = this.calculateRewards(pool, pool.predictions, outcomeValue);
+      const { results, protocolFee, protocolFeeBps } = calculation;
+
+      // Stakes are still verified while a pool is locked, and each one raises totalStake;
+      // only write rewards computed from the total that is still current
+      const unchanged = await tx.pool.updateMany({
+        where: { id: poolId, totalStake: pool.totalStake },
+        data: { totalStake: pool.totalStake }
+      });
+      if (unchanged.count === 0) {
+        throw new StakesChangedError(poolId);
+      }
+
+      // Store rewards (staked share of the pool, unstaked fixed 1 or 5 STX)
+      for (const result of results) {
+        if (result.reward === null) continue;
+
+        await tx.prediction.update({
+          where: { id: result.prediction.id },
+          data: { claimableReward: result.reward }
+        });
+
+        // Keep each transaction's share so every payout traces back to the stakes behind it
+        for (const stakeResult of result.stakes) {
+          if (!stakeResult.stake.id) continue;
+
+          await tx.stake.update({
+            where: { id: stakeResult.stake.id },
+            data: { reward: stakeResult.reward }
+          });
+        }
+      }
+
+      await FeeService.recordFee(poolId, protocolFee, protocolFeeBps, tx);
+
+      // Keep how every reward was computed, so summaries and disputes never depend on a recomputation
+      await this.recordResolution(pool, calculation, { outcomeValue, winningOption, submittedBy: submittedBy ?? null }, tx);
+
+      // Mark pool as resolved
+      await PoolLifecycleService.transition(poolId, 'resolved', resolution, tx);
+
+      return { pool, calculation, winningOption };
+    }, { timeout: RESOLUTION_TIMEOUT_MS });
+  }
+
+  /**
+   * Turn a reward calculation into one audit row per prediction
+   * @param calculation - calculateRewards output
+   * @param outcomeValue - The outcome the calculation was run against
+   * @param isCategorical - Categorical predictions have no distance, only right or wrong
+   */
+  static toAuditRows(calculation: RewardCalculation, outcomeValue: number, isCategorical: boolean): RewardAuditRow[] {
+    return calculation.results.map(({ prediction, numericPrediction, score, weighted, reward, voteReward, stakes }) => ({
+      predictionId: prediction.id,
+      userWalletAddress: prediction.userWalletAddress,
+      predictionValue: prediction.predictionValue,
+      numericPrediction,
+      distance: isCategorical ? null : Math.abs(numericPrediction - outcomeValue),
+      stakeAmount: prediction.stakeAmount,
+      score,
+      weightedScore: weighted,
+      reward,
+      voteReward,
+      stakes: stakes.map(r => ({
+        stakeId: r.stake.id ?? null,
+        transactionId: r.stake.transactionId ?? null,
+        predictionValue: r.stake.predictionValue,
+        amount: r.stake.amount,
+        numericPrediction: r.numericPrediction,
+        score: r.score,
+        weightedScore: r.weighted,
+        reward: r.reward
+      }))
+    }));
+  }
+
+  /**
+   * Store a resolution and its per-prediction audit trail
+   * @param client - Run inside the transaction that writes the rewards
+   * @returns The stored resolution
+   */
+  static async recordResolution(
+    pool: { id: string; totalStake: number; outcomeOptions?: unknown },
+    calculation: RewardCalculation,
+    details: ResolutionDetails,
+    client: DbClient = db
+  ) {
+    const rows = this.toAuditRows(calculation, details.outcomeValue, getOutcomeOptions(pool) !== null);
+
+    return client.poolResolution.create({
+      data: {
+        poolId: pool.id,
+        outcomeValue: details.outcomeValue,
+        winningOption: details.winningOption,
+        submittedBy: details.submittedBy,
+        correctsId: details.correctsId ?? null,
+        correctionReason: details.correctionReason ?? null,
+        adjustments: details.adjustments ? (details.adjustments as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+        scoringStrategy: calculation.scoringStrategy,
+        scoringParams: calculation.scoringParams,
+        formulaVersion: REWARD_FORMULA_VERSION,
+        totalStake: pool.totalStake,
+        protocolFeeBps: calculation.protocolFeeBps,
+        protocolFee: calculation.protocolFee,
+        distributedStake: calculation.distributedStake,
+        totalWeighted: calculation.totalWeighted,
+        stakesRefunded: calculation.stakesRefunded,
+        audits: {
+          create: rows.map(row => ({
+            ...row,
+            stakes: row.stakes as Prisma.InputJsonValue,
+            scoringStrategy: calculation.scoringStrategy,
+            formulaVersion: REWARD_FORMULA_VERSION
+          }))
+        }
+      }
+    });
+  }
+
+  /**
+   * Correct the outcome of a resolved pool and re-resolve it in one transaction
+   * Unclaimed rewards, and claimed ones whose payout has not gone out, are recomputed in place.
+   * Paid-out rewards stay as paid, and any difference is recorded as a RewardDebt owed by the wallet (overpaid) or the platform (underpaid)
+   * Open debts from earlier corrections are superseded, so a wallet only ever owes the latest gap
+   * The new resolution supersedes the old one and stores the per-wallet diff
+   * @param poolId - The resolved pool
+   * @param outcomeValue - The corrected outcome (0-100), or the winning option's index for categorical pools
+   * @param reason - Why the outcome is being corrected
+   * @param correctedBy - The admin correcting the outcome
+   * @returns The correcting resolution's id and the per-wallet diff
+   * @throws PoolStatusError if the pool is not resolved, or was corrected concurrently
+   * @throws ValidationError if the reason is missing or the outcome is invalid or unchanged
+   */
+  static async correctOutcome(poolId: string, outcomeValue: number, reason: string, correctedBy: string) {
+    const correctionReason = reason?.trim();
+    if (!correctionReason) {
+      throw new ValidationError('A correction reason is required');
+    }
+
+    if (correctionReason.length > 500) {
+      throw new ValidationError('Correction reason must be 500 characters or less');
+    }
+
     const pool = await db.pool.findUnique({
       where: { id: poolId },
-      include: { predictions: true }
+      include: {
+        predictions: {
+          include: { stakes: { where: { status: 'verified' } }, payout: true }
+        }
+      }
     });
 
     if (!pool) {
-      throw new Error('Pool not found');
+      throw new ValidationError('Pool not found');
     }
 
-    if (pool.isResolved) {
-      throw new Error('Pool is already resolved');
+    if (pool.status !== 'resolved' || pool.outcomeValue === null) {
+      throw new PoolStatusError(`Pool is ${pool.status}; only resolved pools can be corrected`);
     }
 
-    if (pool.predictions.length === 0) {
-      // No predictions to resolve, just mark pool as resolved
-      await db.pool.update({
-        where: { id: poolId },
-        data: { 
-          outcomeValue, 
-          isResolved: true 
-        }
-      });
-      return;
+    const options = getOutcomeOptions(pool);
+    if (options
+      ? !(Number.isInteger(outcomeValue) && outcomeValue >= 0 && outcomeValue < options.length)
+      : !(outcomeValue >= 0 && outcomeValue <= 100)) {
+      throw new ValidationError(options
+        ? 'Outcome must be the index of one of the pool\'s options'
+        : 'Outcome value must be between 0 and 100');
     }
 
-    // Calculate scores and weighted scores
-    let totalWeighted = 0;
-    const stakedResults: PredictionResult[] = [];
-    const unstakedResults: PredictionResult[] = [];
+    if (outcomeValue === pool.outcomeValue) {
+      throw new ValidationError('Outcome is unchanged');
+    }
+
+    const previousOutcomeValue = pool.outcomeValue;
+    const winningOption = options ? options[outcomeValue] : null;
+    const previous = await this.getResolutionSnapshot(pool);
+    const calculation = this.calculateRewards(pool, pool.predictions, outcomeValue);
 
-    for (const prediction of pool.predictions) {
-      const numericPrediction = this.parseNumericPrediction(prediction.predictionValue);
-      const score = useQuadraticScoring 
-        ? this.calculateQuadraticScore(numericPrediction, outcomeValue)
-        : this.calculateScore(numericPrediction, outcomeValue);
-      
-      if (prediction.stakeAmount > 0) {
-        // Staked prediction - use weighted scoring
-        const weighted = score * prediction.stakeAmount;
-        totalWeighted += weighted;
-        stakedResults.push({ prediction, score, weighted });
-      } else {
-        // Non-staked prediction - base reward based on accuracy
-        const baseReward = score > 0.5 ? 5 : 1; // 5 STX for good predictions, 1 STX participation
-        unstakedResults.push({ prediction, score, weighted: baseReward });
+    const { resolution, adjustments } = await db.$transaction(async (tx) => {
+      // Only one correction can replace a given outcome; a concurrent one rolls back here
+      const updated = await tx.pool.updateMany({
+        where: { id: poolId, status: 'resolved', outcomeValue: previousOutcomeValue },
+        data: { outcomeValue, winningOption, outcomeSubmittedBy: correctedBy }
+      });
+      if (updated.count === 0) {
+        throw new PoolStatusError('Pool was changed while being corrected, try again');
       }
-    }
 
-    const results = [...stakedResults, ...unstakedResults];
+      // Debts still open from an earlier correction are replaced by the ones recorded here,
+      // which are worked out against what has actually been paid and settled so far
+      await tx.rewardDebt.updateMany({
+        where: { poolId, status: 'open' },
+        data: { status: 'superseded' }
+      });
+      const settledDebts = await tx.rewardDebt.findMany({ where: { poolId, status: 'settled' } });
+
+      // Claims whose payout has not gone out yet are paid at the corrected amount instead;
+      // one that would now pay nothing is dropped and the claim undone
+      const payoutsAdjusted = new Set<string>();
+      for (const { prediction, reward } of calculation.results) {
+        if (!prediction.claimed || !prediction.payout) continue;
+
+        const unsent = { id: prediction.payout.id, status: { in: ['pending', 'failed'] } };
+        const changed = reward && reward > 0
+          ? await tx.payout.updateMany({ where: unsent, data: { amount: reward } })
+          : await tx.payout.deleteMany({ where: unsent });
+        if (changed.count === 0) continue; // Already broadcast, so a debt covers it
+
+        if (!reward || reward <= 0) {
+          await tx.prediction.update({ where: { id: prediction.id }, data: { claimed: false } });
+        }
+        payoutsAdjusted.add(prediction.id);
+      }
+
+      const adjustments = this.getAdjustments(calculation.results, settledDebts, payoutsAdjusted);
+
+      await tx.poolResolution.updateMany({
+        where: { poolId, supersededAt: null },
+        data: { supersededAt: new Date() }
+      });
 
-    // Calculate and store rewards
-    for (const result of stakedResults) {
-      if (totalWeighted > 0) {
-        // Staked predictions share the pool stake proportionally
-        const reward = (result.weighted / totalWeighted) * pool.totalStake;
-        await db.prediction.update({
+      for (const result of calculation.results) {
+        // Paid-out rewards keep what was paid on the prediction and its stakes; the new
+        // resolution's audit rows hold the corrected amounts and the debt covers the difference
+        if (result.prediction.claimed && !payoutsAdjusted.has(result.prediction.id)) {
+          continue;
+        }
+
+        await tx.prediction.update({
           where: { id: result.prediction.id },
-          data: { claimableReward: reward }
+          data: { claimableReward: result.reward }
+        });
+
+        for (const stakeResult of result.stakes) {
+          if (!stakeResult.stake.id) continue;
+
+          await tx.stake.update({
+            where: { id: stakeResult.stake.id },
+            data: { reward: stakeResult.reward }
+          });
+        }
+      }
+
+      await FeeService.recordFeeAdjustment(
+        poolId,
+        calculation.protocolFee - previous.protocolFee,
+        calculation.protocolFeeBps,
+        tx
+      );
+
+      const resolution = await this.recordResolution(pool, calculation, {
+        outcomeValue,
+        winningOption,
+        submittedBy: correctedBy,
+        correctsId: previous.resolutionId,
+        correctionReason,
+        adjustments
+      }, tx);
+
+      for (const adjustment of adjustments) {
+        if (!adjustment.debt) continue;
+
+        await tx.rewardDebt.create({
+          data: {
+            poolId,
+            predictionId: adjustment.predictionId,
+            resolutionId: resolution.id,
+            userWalletAddress: adjustment.walletAddress,
+            amount: adjustment.debt.amount,
+            owedBy: adjustment.debt.owedBy
+          }
         });
       }
+
+      return { resolution, adjustments };
+    }, { timeout: RESOLUTION_TIMEOUT_MS });
+
+    const debts = adjustments.filter(a => a.debt);
+
+    PoolEvents.publish('pool.resolved', poolId);
+    await WebhookService.emit('pool.corrected', {
+      poolId,
+      resolutionId: resolution.id,
+      previousOutcomeValue,
+      outcomeValue,
+      winningOption,
+      reason: correctionReason,
+      adjusted: adjustments.filter(a => (!a.claimed || a.payoutAdjusted) && a.delta !== 0).length,
+      debts: debts.length
+    });
+    console.log(`✏️ Pool ${poolId} outcome corrected by ${correctedBy}: ${previousOutcomeValue} → ${outcomeValue}, ${debts.length} debts recorded`);
+
+    return {
+      poolId,
+      resolutionId: resolution.id,
+      previousOutcomeValue,
+      outcomeValue,
+      winningOption,
+      reason: correctionReason,
+      adjustments,
+      totals: {
+        unclaimedDelta: adjustments.filter(a => !a.claimed || a.payoutAdjusted).reduce((sum, a) => sum + a.delta, 0),
+        owedByWallets: debts.filter(a => a.debt!.owedBy === 'wallet').reduce((sum, a) => sum + a.debt!.amount, 0),
+        owedByPlatform: debts.filter(a => a.debt!.owedBy === 'platform').reduce((sum, a) => sum + a.debt!.amount, 0)
+      }
+    };
+  }
+
+  /**
+   * Diff each prediction's corrected reward against what it was holding
+   * A claimed reward has been received as its payout, less what the wallet paid back on
+   * settled debts and plus what the platform paid on them; any remaining gap becomes a debt
+   */
+  private static getAdjustments(
+    results: PredictionResult[],
+    settledDebts: Array<{ predictionId: string; amount: number; owedBy: string }>,
+    payoutsAdjusted: Set<string>
+  ): RewardAdjustment[] {
+    return results.map(({ prediction, reward }) => {
+      const oldReward = prediction.claimableReward ?? 0;
+      const newReward = reward ?? 0;
+
+      const received = settledDebts
+        .filter(debt => debt.predictionId === prediction.id)
+        .reduce(
+          (sum, debt) => debt.owedBy === 'wallet' ? sum - debt.amount : sum + debt.amount,
+          prediction.payout?.amount ?? oldReward // A claim was paid out at the old amount
+        );
+      const owed = newReward - received;
+      const payoutAdjusted = payoutsAdjusted.has(prediction.id);
+      const debt = prediction.claimed && !payoutAdjusted && Math.abs(owed) > 1e-9 // Ignore float noise
+        ? { amount: Math.abs(owed), owedBy: (owed < 0 ? 'wallet' : 'platform') as RewardDebtOwner }
+        : null;
+
+      return {
+        predictionId: prediction.id,
+        walletAddress: prediction.userWalletAddress,
+        claimed: prediction.claimed,
+        payoutAdjusted,
+        oldReward,
+        newReward,
+        delta: newReward - oldReward,
+        debt
+      };
+    });
+  }
+
+  /**
+   * Mark a reward debt as settled, once it was paid back or paid out outside the platform
+   * @throws ValidationError if the debt does not exist or is no longer open
+   */
+  static async settleDebt(debtId: string, settledBy: string, note?: string) {
+    const settled = await db.rewardDebt.updateMany({
+      where: { id: debtId, status: 'open' },
+      data: { status: 'settled', settledAt: new Date(), settledBy, note: note || null }
+    });
+
+    if (settled.count === 0) {
+      const debt = await db.rewardDebt.findUnique({ where: { id: debtId } });
+      throw new ValidationError(debt ? `Debt is already ${debt.status}` : 'Debt not found');
     }
 
-    // Give fixed rewards to unstaked predictions based on accuracy
-    for (const result of unstakedResults) {
-      await db.prediction.update({
-        where: { id: result.prediction.id },
-        data: { claimableReward: result.weighted } // baseReward (1 or 5 STX)
-      });
+    console.log(`🧾 Reward debt ${debtId} settled by ${settledBy}`);
+    return db.rewardDebt.findUnique({ where: { id: debtId } });
+  }
+
+  /**
+   * Cancel a pool and refund every staker
+   * Each prediction's claimable amount becomes its verified stake, so refunds go through the normal claim path
+   * @param poolId - The pool ID to cancel
+   * @param reason - Why the pool was voided
+   * @param cancelledBy - The admin cancelling the pool
+   * @throws PoolStatusError if the pool is resolved or already cancelled
+   * @throws ValidationError if the reason is missing or stakes are still waiting for confirmation
+   */
+  static async cancelPool(poolId: string, reason: string, cancelledBy: string): Promise<void> {
+    const cancellationReason = reason?.trim();
+    if (!cancellationReason) {
+      throw new ValidationError('A cancellation reason is required');
     }
 
-    // Mark pool as resolved
-    await db.pool.update({
+    if (cancellationReason.length > 500) {
+      throw new ValidationError('Cancellation reason must be 500 characters or less');
+    }
+
+    const refunds = await db.$transaction(async (tx) => {
+      // Pending stakes would land on a pool nobody can claim from
+      const pendingStakes = await tx.stake.count({ where: { poolId, status: 'pending' } });
+      if (pendingStakes > 0) {
+        throw new ValidationError('Pool still has stakes waiting for on-chain confirmation');
+      }
+
+      await PoolLifecycleService.transition(poolId, 'cancelled', { cancellationReason, cancelledBy }, tx);
+
+      const predictions = await tx.prediction.findMany({
+        where: { poolId },
+        include: { stakes: { where: { status: 'verified' } } }
+      });
+
+      let refunds = 0;
+      for (const prediction of predictions) {
+        // Predictions staked before the ledger have only stakeAmount, which is refunded as one stake
+        const stakes = this.getPredictionStakes(prediction);
+        if (stakes.length > 0) refunds++;
+
+        await tx.prediction.update({
+          where: { id: prediction.id },
+          data: { claimableReward: stakes.reduce((sum, stake) => sum + stake.amount, 0) }
+        });
+
+        for (const stake of stakes) {
+          if (!stake.id) continue;
+
+          await tx.stake.update({
+            where: { id: stake.id },
+            data: { reward: stake.amount }
+          });
+        }
+      }
+
+      return refunds;
+    }, { timeout: RESOLUTION_TIMEOUT_MS });
+
+    PoolEvents.publish('pool.status', poolId);
+    await WebhookService.emit('pool.cancelled', { poolId, reason: cancellationReason, refunds });
+    console.log(`🚫 Pool ${poolId} cancelled by ${cancelledBy}, ${refunds} stakers refunded: ${cancellationReason}`);
+  }
+
+  /**
+   * Project what a prospective stake would win, using the pool's real scoring and share math
+   * The stake is added to the pool's current verified stakes; nothing is written
+   * @param poolId - The pool
+   * @param request - Prediction, stake amount and outcomes to try
+   * @returns Rewards per outcome and the outcomes where the stake at least pays for itself,
+   * or null if the pool does not exist
+   * @throws ValidationError if the pool is not taking stakes or the request is invalid
+   */
+  static async previewStake(poolId: string, request: StakePreviewRequest) {
+    const pool = await db.pool.findUnique({
       where: { id: poolId },
-      data: { 
-        outcomeValue, 
-        isResolved: true 
+      include: {
+        predictions: {
+          include: { stakes: { where: { status: 'verified' } } }
+        }
+      }
+    });
+
+    if (!pool || pool.status === 'draft') {
+      return null;
+    }
+
+    if (pool.status !== 'open') {
+      throw new ValidationError(`Pool is ${pool.status} and is not taking stakes`);
+    }
+
+    const predictionValue = RewardValidation.validatePoolPrediction(pool, request.predictionValue);
+    RewardValidation.validateStakeAmount(request.stakeAmount);
+    const stakeAmount = Number(request.stakeAmount);
+
+    if (!Array.isArray(request.outcomes) || request.outcomes.length === 0 || request.outcomes.length > MAX_PREVIEW_OUTCOMES) {
+      throw new ValidationError(`Outcomes must be a list of 1 to ${MAX_PREVIEW_OUTCOMES} values`);
+    }
+
+    const options = getOutcomeOptions(pool);
+    const outcomeValues = request.outcomes.map(outcome => {
+      if (options) {
+        return RewardValidation.validateWinningOption(pool, outcome);
       }
+      RewardValidation.validateOutcomeValue(outcome);
+      return Number(outcome);
     });
+
+    // The stake joins the wallet's prediction if it has one, scored on its own value like any top-up
+    const previewStake = { predictionValue, amount: stakeAmount, status: 'verified' };
+    const existing = request.walletAddress
+      ? pool.predictions.find(p => p.userWalletAddress === request.walletAddress)
+      : undefined;
+    const previewPrediction = existing
+      ? {
+          ...existing,
+          stakes: [...this.getPredictionStakes(existing).map(stake => ({ ...stake, status: 'verified' })), previewStake],
+          stakeAmount: existing.stakeAmount + stakeAmount
+        }
+      : { id: null, predictionValue, stakeAmount, stakes: [previewStake] };
+
+    const predictions = [...pool.predictions.filter(p => p !== existing), previewPrediction];
+    const previewPool = { ...pool, totalStake: pool.totalStake + stakeAmount };
+
+    const project = (outcomeValue: number) => {
+      const calculation = this.calculateRewards(previewPool, predictions, outcomeValue);
+      const result = calculation.results.find(r => r.prediction === previewPrediction)!;
+      const stakeResult = result.stakes.find(r => r.stake === previewStake)!;
+
+      // No reward is stored when no stake scores at all
+      return {
+        score: stakeResult.score,
+        reward: stakeResult.reward ?? 0,
+        positionReward: result.reward ?? 0
+      };
+    };
+
+    const projections: OutcomePreview[] = request.outcomes.map((outcome, i) => {
+      const { score, reward, positionReward } = project(outcomeValues[i]);
+      const profit = reward - stakeAmount;
+      return { outcome, outcomeValue: outcomeValues[i], score, reward, positionReward, profit, roi: profit / stakeAmount };
+    });
+
+    // Break-even: every option, or every whole outcome from 0 to 100, where the reward covers the stake
+    const breaksEven = (outcomeValue: number) => project(outcomeValue).reward >= stakeAmount;
+    let breakEvenOptions: string[] | null = null;
+    let breakEvenRanges: Array<{ from: number; to: number }> | null = null;
+
+    if (options) {
+      breakEvenOptions = options.filter((_, index) => breaksEven(index));
+    } else {
+      breakEvenRanges = [];
+      for (let outcomeValue = 0; outcomeValue <= 100; outcomeValue++) {
+        if (!breaksEven(outcomeValue)) continue;
+
+        const last = breakEvenRanges[breakEvenRanges.length - 1];
+        if (last && last.to === outcomeValue - 1) {
+          last.to = outcomeValue;
+        } else {
+          breakEvenRanges.push({ from: outcomeValue, to: outcomeValue });
+        }
+      }
+    }
+
+    return {
+      poolId: pool.id,
+      predictionValue,
+      stakeAmount,
+      stakeAsset: pool.stakeAsset,
+      totalStakeAfter: previewPool.totalStake,
+      scoringStrategy: pool.scoringStrategy,
+      protocolFeeBps: FeeService.getFeeBps(pool),
+      projections,
+      breakEvenRanges,
+      breakEvenOptions
+    };
   }
 
   /**
    * Get reward summary for a pool (for testing/debugging)
    * @param poolId - The pool ID
-   * @returns Reward summary data
+   * @returns Reward summary data, or null if the pool does not exist
    */
   static async getRewardSummary(poolId: string): Promise<any> {
     const pool = await db.pool.findUnique({
       where: { id: poolId },
       include: { 
         predictions: {
-          where: { stakeAmount: { gt: 0 } }, // Only predictions with stake
-          include: { user: true }
+          include: {
+            user: true,
+            stakes: { where: { status: 'verified' }, orderBy: { createdAt: 'asc' } }
+          }
         }
       }
     });
 
     if (!pool) {
-      throw new Error('Pool not found');
+      return null;
+    }
+
+    if (pool.status === 'cancelled') {
+      return {
+        pool: {
+          id: pool.id,
+          title: pool.title,
+          totalStake: pool.totalStake,
+          status: pool.status,
+          isResolved: false,
+          cancellationReason: pool.cancellationReason
+        },
+        // Same stakes cancelPool refunded, including legacy stakeAmount-only predictions
+        refunds: pool.predictions
+          .filter(p => this.getPredictionStakes(p).length > 0)
+          .map(p => ({
+            userWalletAddress: p.userWalletAddress,
+            refund: p.claimableReward,
+            claimed: p.claimed
+          })),
+        message: 'Pool was cancelled, stakes are refunded'
+      };
     }
 
-    if (!pool.isResolved || pool.outcomeValue === null) {
+    if (pool.status !== 'resolved' || pool.outcomeValue === null) {
       return {
         pool: {
           id: pool.id,
           title: pool.title,
           totalStake: pool.totalStake,
+          status: pool.status,
           isResolved: false
         },
         message: 'Pool not yet resolved'
       };
     }
 
+    const snapshot = await this.getResolutionSnapshot(pool);
+    const live = new Map(pool.predictions.map(p => [p.id, p]));
+
     const summary = {
+      source: snapshot.resolutionId ? 'snapshot' : 'recomputed',
       pool: {
         id: pool.id,
         title: pool.title,
         totalStake: pool.totalStake,
         outcomeValue: pool.outcomeValue,
-        isResolved: pool.isResolved
+        winningOption: pool.winningOption,
+        status: pool.status,
+        isResolved: pool.isResolved,
+        resolutionId: snapshot.resolutionId,
+        resolvedAt: snapshot.resolvedAt,
+        formulaVersion: snapshot.formulaVersion,
+        scoringStrategy: snapshot.scoringStrategy,
+        scoringParams: snapshot.scoringParams,
+        protocolFeeBps: snapshot.protocolFeeBps,
+        protocolFee: snapshot.protocolFee,
+        distributedStake: snapshot.distributedStake,
+        stakesRefunded: snapshot.stakesRefunded
       },
-      predictions: pool.predictions.map(p => {
-        const numericPrediction = this.parseNumericPrediction(p.predictionValue);
-        const distance = Math.abs(numericPrediction - pool.outcomeValue!);
-        const score = this.calculateScore(numericPrediction, pool.outcomeValue!);
-        
-        return {
-          userWalletAddress: p.userWalletAddress,
-          predictionValue: p.predictionValue,
-          numericPrediction,
-          stakeAmount: p.stakeAmount,
-          distance,
-          score,
-          weightedScore: score * p.stakeAmount,
-          claimableReward: p.claimableReward,
-          claimed: p.claimed
-        };
-      }),
-      totalWeightedScore: pool.predictions.reduce((sum, p) => {
-        const numericPrediction = this.parseNumericPrediction(p.predictionValue);
-        const score = this.calculateScore(numericPrediction, pool.outcomeValue!);
-        return sum + (score * p.stakeAmount);
-      }, 0)
+      // Every prediction, staked or not, so the rewards add up to what is claimable
+      predictions: snapshot.rows.map(row => ({
+        userWalletAddress: row.userWalletAddress,
+        predictionValue: row.predictionValue,
+        numericPrediction: row.numericPrediction,
+        stakeAmount: row.stakeAmount,
+        distance: row.distance,
+        score: row.score,
+        weightedScore: row.weightedScore,
+        reward: row.reward,
+        voteReward: row.voteReward,
+        claimableReward: live.get(row.predictionId)?.claimableReward ?? null,
+        claimed: live.get(row.predictionId)?.claimed ?? false,
+        stakes: row.stakes
+      })),
+      totalWeightedScore: snapshot.totalWeighted
     };
 
     return summary;
   }
 
+  /**
+   * Load the stored resolution of a resolved pool
+   * Pools resolved before resolutions were stored have no snapshot, so theirs is recomputed
+   */
+  private static async getResolutionSnapshot(pool: any) {
+    const resolution = await db.poolResolution.findFirst({
+      where: { poolId: pool.id, supersededAt: null },
+      orderBy: { createdAt: 'desc' },
+      include: { audits: true }
+    });
+
+    if (resolution) {
+      return {
+        resolutionId: resolution.id as string | null,
+        resolvedAt: resolution.createdAt as Date | null,
+        formulaVersion: resolution.formulaVersion as number | null,
+        scoringStrategy: resolution.scoringStrategy,
+        scoringParams: resolution.scoringParams,
+        protocolFeeBps: resolution.protocolFeeBps,
+        protocolFee: resolution.protocolFee,
+        distributedStake: resolution.distributedStake,
+        totalWeighted: resolution.totalWeighted,
+        stakesRefunded: resolution.stakesRefunded,
+        rows: resolution.audits.map(audit => ({ ...audit, stakes: audit.stakes as RewardAuditRow['stakes'] }))
+      };
+    }
+
+    const calculation = this.calculateRewards(pool, pool.predictions, pool.outcomeValue);
+    return {
+      resolutionId: null,
+      resolvedAt: pool.resolvedAt,
+      formulaVersion: null,
+      scoringStrategy: calculation.scoringStrategy,
+      scoringParams: calculation.scoringParams,
+      protocolFeeBps: calculation.protocolFeeBps,
+      protocolFee: calculation.protocolFee,
+      distributedStake: calculation.distributedStake,
+      totalWeighted: calculation.totalWeighted,
+      stakesRefunded: calculation.stakesRefunded,
+      rows: this.toAuditRows(calculation, pool.outcomeValue, getOutcomeOptions(pool) !== null)
+    };
+  }
+
+  /**
+   * Get one wallet's line in every resolution of a pool, newest first
+   * Answers "why did I get this reward" from what was stored at resolution time
+   * @returns null if the wallet has no prediction in a resolved pool
+   */
+  static async getRewardAudit(poolId: string, walletAddress: string) {
+    const audits = await db.rewardAudit.findMany({
+      where: { userWalletAddress: walletAddress, resolution: { poolId } },
+      include: { resolution: true, prediction: { select: { claimableReward: true, claimed: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (audits.length === 0) {
+      return null;
+    }
+
+    return {
+      poolId,
+      walletAddress,
+      claimableReward: audits[0].prediction.claimableReward,
+      claimed: audits[0].prediction.claimed,
+      resolutions: audits.map(({ resolution, prediction, resolutionId, ...audit }) => ({
+        resolutionId,
+        current: resolution.supersededAt === null,
+        resolvedAt: resolution.createdAt,
+        supersededAt: resolution.supersededAt,
+        outcomeValue: resolution.outcomeValue,
+        winningOption: resolution.winningOption,
+        scoringParams: resolution.scoringParams,
+        totalStake: resolution.totalStake,
+        protocolFee: resolution.protocolFee,
+        distributedStake: resolution.distributedStake,
+        totalWeighted: resolution.totalWeighted,
+        stakesRefunded: resolution.stakesRefunded,
+        ...audit
+      }))
+    };
+  }
+
   /**
    * Check if a user can claim rewards for a pool
    * @param poolId - The pool ID
@@ -234,7 +1158,8 @@ export class RewardService {
       };
     }
 
-    if (!prediction.pool.isResolved) {
+    // Cancelled pools pay back each staker's verified stake
+    if (prediction.pool.status !== 'resolved' && prediction.pool.status !== 'cancelled') {
       return {
         canClaim: false,
         reason: 'Pool is not yet resolved'
@@ -248,8 +1173,13 @@ export class RewardService {
       };
     }
 
-    // Allow claims for both staked and unstaked predictions
-    // Unstaked predictions can still earn accuracy-based rewards
+    // Vote rewards stored before they needed funding must not reach the platform wallet either
+    if (prediction.stakeAmount <= 0 && !VOTE_REWARDS_FUNDED) {
+      return {
+        canClaim: false,
+        reason: 'Votes without a stake earn no payout'
+      };
+    }
 
     if (!prediction.claimableReward || prediction.claimableReward <= 0) {
       return {
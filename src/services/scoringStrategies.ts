@@ -0,0 +1,167 @@
+/**
+ * Scoring strategies for pool resolution
+ * Each pool stores a strategy name and its parameters; see "Variants" in reward-new.md
+ */
+
+export type ScoringParams = Record<string, any>;
+
+export interface ScoringStrategy {
+  name: string;
+  description: string;
+  defaultParams: ScoringParams;
+  /**
+   * Check strategy parameters
+   * @returns An error message, or null if the parameters are valid
+   */
+  validateParams(params: ScoringParams): string | null;
+  /**
+   * Score every prediction of a pool against the outcome
+   * Some strategies rank predictions against each other, so they are scored together
+   * @returns Scores between 0 and 1, in the same order as the predictions
+   */
+  scorePredictions(predictions: number[], outcomeValue: number, params: ScoringParams): number[];
+}
+
+export const DEFAULT_SCORING_STRATEGY = 'linear';
+
+// Used by every categorical pool, and only by them
+export const CATEGORICAL_SCORING_STRATEGY = 'categorical';
+
+/**
+ * Linear distance score: 1 / (distance + 1)
+ */
+export function linearScore(predictionValue: number, outcomeValue: number): number {
+  const distance = Math.abs(predictionValue - outcomeValue);
+  return 1 / (distance + 1);
+}
+
+/**
+ * Quadratic loss score: 1 / (distance^2 + 1)
+ */
+export function quadraticScore(predictionValue: number, outcomeValue: number): number {
+  const distance = Math.abs(predictionValue - outcomeValue);
+  return 1 / (distance * distance + 1);
+}
+
+const linear: ScoringStrategy = {
+  name: 'linear',
+  description: 'score = 1 / (distance + 1)',
+  defaultParams: {},
+  validateParams: () => null,
+  scorePredictions: (predictions, outcomeValue) =>
+    predictions.map(p => linearScore(p, outcomeValue))
+};
+
+const quadratic: ScoringStrategy = {
+  name: 'quadratic',
+  description: 'score = 1 / (distance^2 + 1)',
+  defaultParams: {},
+  validateParams: () => null,
+  scorePredictions: (predictions, outcomeValue) =>
+    predictions.map(p => quadraticScore(p, outcomeValue))
+};
+
+/**
+ * Bracket mode: the 0-100 range is split into brackets of `bracketSize`.
+ * Predictions in the bracket closest to the outcome's bracket score 1, everyone else 0.
+ */
+const bracket: ScoringStrategy = {
+  name: 'bracket',
+  description: 'predictions in the bracket closest to the outcome share the pool',
+  defaultParams: { bracketSize: 10 },
+  validateParams: params => {
+    const size = params.bracketSize;
+    if (typeof size !== 'number' || size <= 0 || size > 100) {
+      return 'bracketSize must be a number between 0 and 100';
+    }
+    return null;
+  },
+  scorePredictions: (predictions, outcomeValue, params) => {
+    const size = params.bracketSize;
+    const lastBracket = Math.ceil(100 / size) - 1;
+    const bracketOf = (value: number) => Math.min(Math.floor(value / size), lastBracket);
+
+    const outcomeBracket = bracketOf(outcomeValue);
+    const distances = predictions.map(p => Math.abs(bracketOf(p) - outcomeBracket));
+    const closest = Math.min(...distances);
+
+    return distances.map(d => (d === closest ? 1 : 0));
+  }
+};
+
+/**
+ * Winner-takes-most: only the `topPercent` closest predictions keep their linear score.
+ * At least one prediction always wins, and ties at the cutoff all win.
+ */
+const winnerTakesMost: ScoringStrategy = {
+  name: 'winner-takes-most',
+  description: 'only the top X% closest predictions share the pool',
+  defaultParams: { topPercent: 10 },
+  validateParams: params => {
+    const top = params.topPercent;
+    if (typeof top !== 'number' || top <= 0 || top > 100) {
+      return 'topPercent must be a number between 0 and 100';
+    }
+    return null;
+  },
+  scorePredictions: (predictions, outcomeValue, params) => {
+    if (predictions.length === 0) return [];
+
+    const distances = predictions.map(p => Math.abs(p - outcomeValue));
+    const winners = Math.max(1, Math.floor((predictions.length * params.topPercent) / 100));
+    const cutoff = [...distances].sort((a, b) => a - b)[winners - 1];
+
+    return predictions.map((p, i) => (distances[i] <= cutoff ? linearScore(p, outcomeValue) : 0));
+  }
+};
+
+/**
+ * Categorical pools: predictions are option indexes, and only the winning option scores.
+ * Stakers on the winner share the pool in proportion to their stake.
+ */
+const categorical: ScoringStrategy = {
+  name: 'categorical',
+  description: 'stakers on the winning option share the pool',
+  defaultParams: {},
+  validateParams: () => null,
+  scorePredictions: (predictions, outcomeValue) =>
+    predictions.map(p => (p === outcomeValue ? 1 : 0))
+};
+
+const strategies = new Map<string, ScoringStrategy>();
+
+/**
+ * Register a scoring strategy so pools can select it by name
+ */
+export function registerScoringStrategy(strategy: ScoringStrategy): void {
+  strategies.set(strategy.name, strategy);
+}
+
+/**
+ * Look up a registered scoring strategy
+ * @throws Error if no strategy is registered under that name
+ */
+export function getScoringStrategy(name: string): ScoringStrategy {
+  const strategy = strategies.get(name);
+  if (!strategy) {
+    throw new Error(`Unknown scoring strategy: ${name}`);
+  }
+  return strategy;
+}
+
+/**
+ * List the names of all registered scoring strategies
+ */
+export function listScoringStrategies(): string[] {
+  return [...strategies.keys()];
+}
+
+/**
+ * Merge stored pool parameters over the strategy's defaults
+ */
+export function resolveScoringParams(strategy: ScoringStrategy, params: unknown): ScoringParams {
+  const stored = params && typeof params === 'object' ? (params as ScoringParams) : {};
+  return { ...strategy.defaultParams, ...stored };
+}
+
+[linear, quadratic, bracket, winnerTakesMost, categorical].forEach(registerScoringStrategy);
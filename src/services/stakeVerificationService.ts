@@ -0,0 +1,318 @@
+import db, { DbClient } from '../db';
+import { fromBaseUnits, getStakeAsset } from '../types/asset';
+import { StakeErrorCode, TransactionService } from './transactionService';
+import { PoolEvents } from './poolEvents';
+import { WebhookService } from './webhookService';
+
+// Confirmations a stake transaction needs before it counts
+const REQUIRED_CONFIRMATIONS = parseInt(process.env.STAKE_CONFIRMATIONS || '1');
+
+// Give up on stakes whose transaction never shows up or confirms
+const PENDING_TIMEOUT_MINUTES = parseInt(process.env.STAKE_PENDING_TIMEOUT_MINUTES || '60');
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * pending → verified, or failed if the transaction is invalid or never confirms
+ */
+export type StakeStatus = 'pending' | 'verified' | 'failed';
+
+export class StakeVerificationService {
+  private static isRunning = false;
+  private static isChecking = false;
+  private static checkInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Start the background stake verifier
+   * Checks pending stakes every 30 seconds
+   */
+  static start(): void {
+    if (this.isRunning) {
+      console.log('🔄 Stake verification service already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('🚀 Starting stake verification service...');
+
+    this.verifyPendingStakes();
+
+    this.checkInterval = setInterval(() => {
+      this.verifyPendingStakes();
+    }, CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the background stake verifier
+   */
+  static stop(): void {
+    if (!this.isRunning) {
+      console.log('⏸️ Stake verification service already stopped');
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    console.log('⏹️ Stake verification service stopped');
+  }
+
+  /**
+   * Check every pending stake once
+   */
+  static async verifyPendingStakes(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      const pendingStakes = await db.stake.findMany({
+        where: { status: 'pending' },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      for (const stake of pendingStakes) {
+        await this.verifyStake(stake.id);
+      }
+    } catch (error) {
+      console.error('❌ Error verifying pending stakes:', error);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Check a pending stake's transaction and promote or fail it
+   * @param stakeId - The stake to check
+   * @returns The stake's status after the check
+   */
+  static async verifyStake(stakeId: string): Promise<StakeStatus> {
+    const stake = await db.stake.findUnique({ where: { id: stakeId }, include: { pool: true } });
+
+    if (!stake || stake.status !== 'pending') {
+      return (stake?.status as StakeStatus) || 'failed';
+    }
+
+    // The age check already ran when the stake was submitted
+    const asset = getStakeAsset(stake.pool);
+    const verification = await TransactionService.verifyStakeTransaction(
+      stake.transactionId,
+      stake.userWalletAddress,
+      stake.amount,
+      { poolId: stake.poolId, predictionValue: stake.predictionValue, asset },
+      0
+    );
+
+    if (!verification.isValid && !verification.isPending) {
+      return this.failStake(stakeId, verification.error || 'Transaction verification failed', verification.code);
+    }
+
+    // A valid transaction has moved the funds to the platform wallet; rejecting the stake
+    // from here on has to send back exactly what arrived
+    const transfer = verification.isValid && verification.transactionData
+      ? TransactionService.decodeTransfer(verification.transactionData)
+      : null;
+    const received = transfer ? fromBaseUnits(transfer.amount, asset) : 0;
+
+    const confirmations = verification.isValid
+      ? await TransactionService.getConfirmationCount(stake.transactionId)
+      : 0;
+
+    if (confirmations >= REQUIRED_CONFIRMATIONS) {
+      return this.promoteStake(stakeId, received);
+    }
+
+    const pendingMinutes = (Date.now() - stake.createdAt.getTime()) / 60000;
+    if (pendingMinutes > PENDING_TIMEOUT_MINUTES) {
+      return this.failStake(stakeId, `Transaction not confirmed within ${PENDING_TIMEOUT_MINUTES} minutes`, 'CONFIRMATION_TIMEOUT', received);
+    }
+
+    await db.stake.update({
+      where: { id: stakeId },
+      data: { confirmations, error: verification.error || null, errorCode: verification.code || null }
+    });
+
+    return 'pending';
+  }
+
+  /**
+   * Count a confirmed stake toward the user's prediction and the pool total
+   * The pool is checked in the same transaction, so a pool that closed in the meantime
+   * fails the stake and refunds it instead
+   * @param received - What reached the platform wallet, refunded if the pool has closed
+   */
+  private static async promoteStake(stakeId: string, received: number): Promise<StakeStatus> {
+    const verified = await db.$transaction(async (tx) => {
+      const current = await tx.stake.findUnique({ where: { id: stakeId }, include: { pool: true } });
+      if (!current || current.status !== 'pending') return null;
+
+      // Stakes confirmed after the deadline still count until the pool moves past locked
+      if (current.pool.status !== 'open' && current.pool.status !== 'locked') {
+        const error = `Pool was ${current.pool.status} before the stake was verified`;
+        return await this.markFailed(tx, current, error, 'POOL_CLOSED', received) ? { closed: error } : null;
+      }
+
+      // Totals below are re-derived from stake rows, which would wipe amounts staked before the
+      // stake ledger existed; hold the stake until those are backfilled
+      const legacyPredictions = await tx.prediction.count({
+        where: { poolId: current.poolId, stakeAmount: { gt: 0 }, stakes: { none: {} } }
+      });
+      if (legacyPredictions > 0) {
+        return {
+          held: `Pool has ${legacyPredictions} predictions staked before the stake ledger; ` +
+            'run scripts/backfillStakeLedger.ts before verifying new stakes'
+        };
+      }
+
+      // Only promote once, even if two checks race on the same stake
+      const promoted = await tx.stake.updateMany({
+        where: { id: stakeId, status: 'pending' },
+        data: { status: 'verified', verifiedAt: new Date(), error: null, errorCode: null }
+      });
+      if (promoted.count === 0) return null;
+
+      const stake = await tx.stake.findUniqueOrThrow({ where: { id: stakeId } });
+
+      // The prediction's latest view follows the newest stake; rewards score each stake on its own value
+      let prediction = await tx.prediction.findFirst({
+        where: {
+          poolId: stake.poolId,
+          userWalletAddress: stake.userWalletAddress
+        }
+      });
+
+      if (!prediction) {
+        prediction = await tx.prediction.create({
+          data: {
+            poolId: stake.poolId,
+            userWalletAddress: stake.userWalletAddress,
+            predictionValue: stake.predictionValue
+          }
+        });
+      }
+
+      await tx.stake.update({
+        where: { id: stakeId },
+        data: { predictionId: prediction.id }
+      });
+
+      // Totals are always re-derived from the verified stake rows
+      const predictionTotal = await tx.stake.aggregate({
+        where: { predictionId: prediction.id, status: 'verified' },
+        _sum: { amount: true }
+      });
+
+      await tx.prediction.update({
+        where: { id: prediction.id },
+        data: {
+          predictionValue: stake.predictionValue,
+          stakeAmount: predictionTotal._sum.amount || 0
+        }
+      });
+
+      const poolTotal = await tx.stake.aggregate({
+        where: { poolId: stake.poolId, status: 'verified' },
+        _sum: { amount: true }
+      });
+
+      await tx.pool.update({
+        where: { id: stake.poolId },
+        data: { totalStake: poolTotal._sum.amount || 0 }
+      });
+
+      return { stake, poolTotalStake: poolTotal._sum.amount || 0 };
+    });
+
+    if (!verified) {
+      return this.getStakeStatus(stakeId);
+    }
+
+    if ('closed' in verified) {
+      console.log(`❌ Stake failed: ${stakeId} - ${verified.closed}`);
+      return 'failed';
+    }
+
+    if ('held' in verified) {
+      await db.stake.update({ where: { id: stakeId }, data: { error: verified.held, errorCode: null } });
+      console.error(`⚠️ Stake ${stakeId} held: ${verified.held}`);
+      return 'pending';
+    }
+
+    const { stake, poolTotalStake } = verified;
+    PoolEvents.publish('pool.stake', stake.poolId);
+    await WebhookService.emit('stake.verified', {
+      stakeId: stake.id,
+      poolId: stake.poolId,
+      walletAddress: stake.userWalletAddress,
+      predictionValue: stake.predictionValue,
+      amount: stake.amount,
+      transactionId: stake.transactionId,
+      poolTotalStake
+    });
+    console.log(`✅ Stake verified: ${stakeId}`);
+    return 'verified';
+  }
+
+  /**
+   * Fail a pending stake, refunding whatever already reached the platform wallet
+   * @param received - Amount that arrived on-chain; 0 when nothing did
+   */
+  private static async failStake(stakeId: string, error: string, errorCode?: StakeErrorCode, received = 0): Promise<StakeStatus> {
+    const failed = await db.$transaction(async (tx) => {
+      const stake = await tx.stake.findUnique({ where: { id: stakeId } });
+      return stake ? this.markFailed(tx, stake, error, errorCode, received) : false;
+    });
+
+    if (!failed) {
+      return this.getStakeStatus(stakeId);
+    }
+
+    console.log(`❌ Stake failed: ${stakeId} - ${error}`);
+    return 'failed';
+  }
+
+  /**
+   * Mark a stake failed unless another check already settled it, and queue a refund
+   * payout for any funds that arrived
+   * @returns false if the stake was no longer pending
+   */
+  private static async markFailed(
+    client: DbClient,
+    stake: { id: string; userWalletAddress: string },
+    error: string,
+    errorCode: StakeErrorCode | undefined,
+    received: number
+  ): Promise<boolean> {
+    const failed = await client.stake.updateMany({
+      where: { id: stake.id, status: 'pending' },
+      data: { status: 'failed', error, errorCode }
+    });
+    if (failed.count === 0) return false;
+
+    if (received > 0) {
+      await client.payout.create({
+        data: { stakeId: stake.id, recipientAddress: stake.userWalletAddress, amount: received }
+      });
+      console.log(`↩️ Refund of ${received} queued for rejected stake ${stake.id}`);
+    }
+
+    return true;
+  }
+
+  private static async getStakeStatus(stakeId: string): Promise<StakeStatus> {
+    const stake = await db.stake.findUnique({ where: { id: stakeId } });
+    return (stake?.status as StakeStatus) || 'failed';
+  }
+
+  /**
+   * Get service status
+   */
+  static getStatus(): { isRunning: boolean; requiredConfirmations: number; intervalMs: number | null } {
+    return {
+      isRunning: this.isRunning,
+      requiredConfirmations: REQUIRED_CONFIRMATIONS,
+      intervalMs: this.checkInterval ? CHECK_INTERVAL_MS : null
+    };
+  }
+}
@@ -2,18 +2,78 @@
  * Service for verifying STX transactions on the Stacks blockchain
  */
 
-// Configuration for testnet/mainnet
-const STACKS_API_URL =
-  process.env.NODE_ENV === "production"
-    ? "https://stacks-node-api.mainnet.stacks.co"
-    : "https://stacks-node-api.testnet.stacks.co";
+import { createHash } from "crypto";
+import { cvToValue, hexToCV } from "@stacks/transactions";
+import { ChainProvider, createChainProvider, loadChainConfig, StacksApiChainProvider } from "./chainProviders";
+import { fromBaseUnits, STX_ASSET, STX_ASSET_ID, StakeAsset, toBaseUnits } from "../types/asset";
+
+// Network and API settings (see loadChainConfig)
+export const CHAIN_CONFIG = loadChainConfig();
+
+export const STACKS_NETWORK = CHAIN_CONFIG.network;
+
+export const STACKS_API_URL = CHAIN_CONFIG.apiUrl;
 
 // Platform address that should receive stakes (should match frontend)
-const PLATFORM_ADDRESS =
+export const PLATFORM_ADDRESS =
   process.env.PLATFORM_ADDRESS || "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
 
-// Convert STX to microSTX
-const STX_TO_MICRO_STX = 1_000_000;
+// Version tag at the start of every stake memo
+const STAKE_MEMO_VERSION = "p1";
+
+// Hex characters kept from each hash in the memo; the whole memo must fit the 34-byte transfer memo
+const MEMO_HASH_LENGTH = 12;
+
+/**
+ * Why a stake transaction was rejected
+ */
+export type StakeErrorCode =
+  | "TX_NOT_FOUND"
+  | "TX_PENDING"
+  | "TX_FAILED"
+  | "TX_TOO_OLD"
+  | "NOT_TOKEN_TRANSFER"
+  | "ASSET_MISMATCH"
+  | "SENDER_MISMATCH"
+  | "RECIPIENT_MISMATCH"
+  | "AMOUNT_MISMATCH"
+  | "MEMO_MISSING"
+  | "MEMO_MALFORMED"
+  | "MEMO_POOL_MISMATCH"
+  | "MEMO_PREDICTION_MISMATCH"
+  | "API_UNAVAILABLE"
+  | "TX_ALREADY_USED"
+  | "CONFIRMATION_TIMEOUT"
+  | "POOL_CLOSED";
+
+/**
+ * What a stake transfer must be bound to: the pool and prediction through its memo,
+ * and the pool's stake asset (STX when omitted)
+ */
+export interface StakeBinding {
+  poolId: string;
+  predictionValue: string;
+  asset?: StakeAsset;
+}
+
+/**
+ * An STX transfer or SIP-010 `transfer` call, in the asset's base units
+ */
+export interface DecodedTransfer {
+  assetContractId: string | null; // null for STX
+  sender: string;
+  recipient: string;
+  amount: bigint;
+  memo: string | null;
+}
+
+/**
+ * The two parts of a stake memo: `p1:<pool ref>:<prediction commitment>`
+ */
+export interface StakeMemo {
+  poolRef: string;
+  commitment: string;
+}
 
 export interface TransactionData {
   tx_id: string;
@@ -25,6 +85,11 @@ export interface TransactionData {
     amount: string;
     memo?: string;
   };
+  contract_call?: {
+    contract_id: string;
+    function_name: string;
+    function_args?: Array<{ hex: string; repr: string; name: string; type: string }>;
+  };
   fee_rate?: string;
   block_height?: number;
   canonical?: boolean;
@@ -32,30 +97,33 @@ export interface TransactionData {
 
 export interface VerificationResult {
   isValid: boolean;
+  isPending?: boolean; // Not confirmed yet (or not reachable), so it may still become valid
   error?: string;
+  code?: StakeErrorCode;
   transactionData?: TransactionData;
 }
 
 export class TransactionService {
+  private static provider: ChainProvider = createChainProvider(CHAIN_CONFIG);
+
   /**
-   * Fetch transaction data from Stacks API
+   * Swap the chain provider (e.g. a FakeChainProvider in tests)
    */
-  static async fetchTransaction(txId: string): Promise<TransactionData | null> {
-    try {
-      const response = await fetch(`${STACKS_API_URL}/extended/v1/tx/${txId}`);
-
-      if (response.status === 404) {
-        // Transaction not found, might be too new
-        return null;
-      }
+  static setProvider(provider: ChainProvider): void {
+    this.provider = provider;
+  }
 
-      if (!response.ok) {
-        throw new Error(
-          `API request failed: ${response.status} ${response.statusText}`
-        );
-      }
+  static getProvider(): ChainProvider {
+    return this.provider;
+  }
 
-      return (await response.json()) as TransactionData;
+  /**
+   * Fetch transaction data from the chain provider
+   * @returns null if the transaction is not found, might be too new
+   */
+  static async fetchTransaction(txId: string): Promise<TransactionData | null> {
+    try {
+      return await this.provider.getTransaction(txId);
     } catch (error) {
       console.error("Error fetching transaction:", error);
       throw new Error(
@@ -67,12 +135,80 @@ export class TransactionService {
   }
 
   /**
-   * Verify that a transaction matches the expected stake parameters
+   * Build the memo a stake transfer must carry
+   * The pool ref is a hash of the pool ID and the commitment a hash of the pool ID and prediction,
+   * so a transfer made for one pool or side can't be submitted for another
+   */
+  static buildStakeMemo(binding: StakeBinding): string {
+    const hash = (value: string) =>
+      createHash("sha256").update(value).digest("hex").slice(0, MEMO_HASH_LENGTH);
+
+    const poolRef = hash(binding.poolId);
+    const commitment = hash(`${binding.poolId}:${this.normalizePrediction(binding.predictionValue)}`);
+    return `${STAKE_MEMO_VERSION}:${poolRef}:${commitment}`;
+  }
+
+  /**
+   * Parse a stake memo as the Stacks API returns it (hex, zero-padded) or as plain text
+   * @returns The memo's parts, or null if it isn't a stake memo
+   */
+  static parseStakeMemo(memo: string): StakeMemo | null {
+    const text = /^0x([0-9a-fA-F]{2})*$/.test(memo)
+      ? Buffer.from(memo.slice(2), "hex").toString("utf8")
+      : memo;
+
+    const match = text.replace(/\0+$/, "").trim().match(
+      new RegExp(`^${STAKE_MEMO_VERSION}:([0-9a-f]{${MEMO_HASH_LENGTH}}):([0-9a-f]{${MEMO_HASH_LENGTH}})$`)
+    );
+    return match ? { poolRef: match[1], commitment: match[2] } : null;
+  }
+
+  /**
+   * "Yes", " yes" and "yes" commit to the same prediction, as do "50" and "50.0"
+   */
+  private static normalizePrediction(predictionValue: string): string {
+    const value = predictionValue.trim().toLowerCase();
+    return value !== "" && !isNaN(Number(value)) ? String(Number(value)) : value;
+  }
+
+  /**
+   * Check a transfer's memo against the pool and prediction it is staked on
+   */
+  static checkStakeMemo(
+    transactionData: TransactionData,
+    binding: StakeBinding
+  ): { code: StakeErrorCode; error: string } | null {
+    const memo = this.extractMemo(transactionData);
+    if (!memo || /^(0x)?0*$/.test(memo)) {
+      return { code: "MEMO_MISSING", error: "Transaction has no stake memo" };
+    }
+
+    const parsed = this.parseStakeMemo(memo);
+    if (!parsed) {
+      return { code: "MEMO_MALFORMED", error: "Transaction memo is not a stake memo" };
+    }
+
+    const expected = this.parseStakeMemo(this.buildStakeMemo(binding))!;
+    if (parsed.poolRef !== expected.poolRef) {
+      return { code: "MEMO_POOL_MISMATCH", error: "Transaction memo is for a different pool" };
+    }
+
+    if (parsed.commitment !== expected.commitment) {
+      return { code: "MEMO_PREDICTION_MISMATCH", error: "Transaction memo is for a different prediction" };
+    }
+
+    return null;
+  }
+
+  /**
+   * Verify that a transaction matches the expected stake parameters:
+   * a transfer from the staker to PLATFORM_ADDRESS for the amount, with a memo bound to the pool and prediction
    */
   static async verifyStakeTransaction(
     txId: string,
     expectedSender: string,
     expectedAmount: number,
+    binding: StakeBinding,
     maxAgeMinutes: number = 30
   ): Promise<VerificationResult> {
     try {
@@ -83,53 +219,102 @@ export class TransactionService {
       if (!transactionData) {
         return {
           isValid: false,
+          isPending: true,
           error: "Transaction not found or still pending",
+          code: "TX_NOT_FOUND",
         };
       }
 
-      // Check transaction type
-      if (transactionData.tx_type !== "token_transfer") {
+      const asset = binding.asset || STX_ASSET;
+
+      // Check transaction type: an STX transfer, or a SIP-010 transfer call
+      const transfer = this.decodeTransfer(transactionData);
+      if (!transfer) {
         return {
           isValid: false,
           error: "Transaction is not a token transfer",
+          code: "NOT_TOKEN_TRANSFER",
+          transactionData,
+        };
+      }
+
+      // Check it moves the pool's stake asset
+      if (transfer.assetContractId !== asset.contractId) {
+        return {
+          isValid: false,
+          error: `Transaction does not transfer ${asset.symbol}`,
+          code: "ASSET_MISMATCH",
           transactionData,
         };
       }
 
-      // Check transaction status
-      if (transactionData.tx_status !== "success") {
+      // Check transaction status (mempool transactions are checked below, then reported as pending)
+      const isPending = transactionData.tx_status === "pending";
+      if (!isPending && transactionData.tx_status !== "success") {
         return {
           isValid: false,
           error: `Transaction failed with status: ${transactionData.tx_status}`,
+          code: "TX_FAILED",
           transactionData,
         };
       }
 
-      // Check sender address
-      if (transactionData.sender_address !== expectedSender) {
+      // Check sender address (for SIP-010 calls, both the caller and the token sender)
+      if (transactionData.sender_address !== expectedSender || transfer.sender !== expectedSender) {
         return {
           isValid: false,
           error: "Transaction sender does not match expected address",
+          code: "SENDER_MISMATCH",
           transactionData,
         };
       }
 
-      // Check amount (convert STX to microSTX for comparison)
-      const expectedMicroSTX = Math.floor(expectedAmount * STX_TO_MICRO_STX);
-      const actualMicroSTX = parseInt(
-        transactionData.token_transfer?.amount || "0"
-      );
+      // Check recipient address
+      if (transfer.recipient !== PLATFORM_ADDRESS) {
+        return {
+          isValid: false,
+          error: "Transaction recipient is not the platform address",
+          code: "RECIPIENT_MISMATCH",
+          transactionData,
+        };
+      }
+
+      // Check amount in the asset's base units
+      const expectedUnits = toBaseUnits(expectedAmount, asset);
+      const amountDifference = transfer.amount > expectedUnits
+        ? transfer.amount - expectedUnits
+        : expectedUnits - transfer.amount;
 
-      // Allow small tolerance for rounding errors
-      const tolerance = 0.01 * STX_TO_MICRO_STX; // 0.01 STX tolerance
-      const amountDifference = Math.abs(actualMicroSTX - expectedMicroSTX);
+      // STX keeps its 0.01 STX tolerance for rounding errors; tokens must match to the base unit
+      const tolerance = asset.id === STX_ASSET_ID ? toBaseUnits(0.01, asset) : 0n;
 
       if (amountDifference > tolerance) {
         return {
           isValid: false,
-          error: `Transaction amount mismatch. Expected: ${expectedAmount} STX, Got: ${
-            actualMicroSTX / STX_TO_MICRO_STX
-          } STX`,
+          error: `Transaction amount mismatch. Expected: ${expectedAmount} ${asset.symbol}, Got: ${
+            fromBaseUnits(transfer.amount, asset)
+          } ${asset.symbol}`,
+          code: "AMOUNT_MISMATCH",
+          transactionData,
+        };
+      }
+
+      // Check the memo binds the transfer to this pool and prediction
+      const memoError = this.checkStakeMemo(transactionData, binding);
+      if (memoError) {
+        return {
+          isValid: false,
+          ...memoError,
+          transactionData,
+        };
+      }
+
+      if (isPending) {
+        return {
+          isValid: false,
+          isPending: true,
+          error: "Transaction is still pending",
+          code: "TX_PENDING",
           transactionData,
         };
       }
@@ -150,6 +335,7 @@ export class TransactionService {
           return {
             isValid: false,
             error: "Transaction is too old",
+            code: "TX_TOO_OLD",
             transactionData,
           };
         }
@@ -160,29 +346,36 @@ export class TransactionService {
         transactionData,
       };
     } catch (error) {
+      // The API could not be reached, so the transaction may still turn out valid
       return {
         isValid: false,
+        isPending: true,
         error: error instanceof Error ? error.message : "Verification failed",
+        code: "API_UNAVAILABLE",
       };
     }
   }
 
   /**
-   * Get current block height from Stacks API
+   * Get current block height from the chain provider
    */
   static async getCurrentBlockHeight(): Promise<number | null> {
     try {
-      const response = await fetch(`${STACKS_API_URL}/extended/v1/status`);
-      if (!response.ok) return null;
-
-      const status = (await response.json()) as any;
-      return status.chain_tip?.block_height || null;
+      const { blockHeight } = await this.provider.getChainTip();
+      return blockHeight || null;
     } catch (error) {
       console.error("Error fetching current block height:", error);
       return null;
     }
   }
 
+  /**
+   * Recent STX transfers sent or received by an address, newest first
+   */
+  static async getAddressTransfers(address: string, limit?: number): Promise<TransactionData[]> {
+    return this.provider.getAddressTransfers(address, limit);
+  }
+
   /**
    * Check if transaction is confirmed (has block height)
    */
@@ -216,6 +409,17 @@ export class TransactionService {
     }
   }
 
+  /**
+   * Get the chain provider in use
+   */
+  static getStatus(): { provider: string; network: string; apiUrl: string | null } {
+    return {
+      provider: this.provider.name,
+      network: this.provider.network,
+      apiUrl: this.provider instanceof StacksApiChainProvider ? CHAIN_CONFIG.apiUrl : null
+    };
+  }
+
   /**
    * Validate transaction ID format
    */
@@ -229,6 +433,55 @@ export class TransactionService {
    * Extract memo from transaction (if available)
    */
   static extractMemo(transactionData: TransactionData): string | null {
-    return transactionData.token_transfer?.memo || null;
+    return this.decodeTransfer(transactionData)?.memo || null;
+  }
+
+  /**
+   * Decode an STX transfer or a SIP-010 `transfer(amount, sender, recipient, memo)` call
+   * @returns The transfer, or null for any other kind of transaction
+   */
+  static decodeTransfer(transactionData: TransactionData): DecodedTransfer | null {
+    if (transactionData.tx_type === "token_transfer" && transactionData.token_transfer) {
+      return {
+        assetContractId: null,
+        sender: transactionData.sender_address,
+        recipient: transactionData.token_transfer.recipient_address,
+        amount: BigInt(transactionData.token_transfer.amount || "0"),
+        memo: transactionData.token_transfer.memo || null,
+      };
+    }
+
+    const call = transactionData.contract_call;
+    if (transactionData.tx_type !== "contract_call" || call?.function_name !== "transfer") {
+      return null;
+    }
+
+    const args = call.function_args || [];
+    if (args.length !== 4) {
+      return null;
+    }
+
+    try {
+      const [amount, sender, recipient, memo] = args.map(arg => {
+        const cv = hexToCV(arg.hex);
+        // The memo is (optional (buff 34))
+        return cv.type === "some" ? cvToValue(cv.value) : cvToValue(cv);
+      });
+
+      if (typeof amount !== "bigint" || typeof sender !== "string" || typeof recipient !== "string") {
+        return null;
+      }
+
+      return {
+        assetContractId: call.contract_id,
+        sender,
+        recipient,
+        amount,
+        memo: typeof memo === "string" ? memo : null,
+      };
+    } catch {
+      // Arguments that aren't valid Clarity values
+      return null;
+    }
   }
 }
@@ -0,0 +1,287 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { Prisma } from '@prisma/client';
+import db from '../db';
+
+// Give up on a delivery after this many attempts (admins can replay it)
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+
+// First retry waits this long, then doubles each attempt
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000');
+
+// Receivers that don't answer within this long count as failed
+const REQUEST_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+
+const PROCESS_INTERVAL_MS = 15 * 1000;
+
+export const WEBHOOK_EVENT_TYPES = ['pool.created', 'stake.verified', 'pool.resolved', 'pool.corrected', 'pool.cancelled', 'reward.claimed'] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return WEBHOOK_EVENT_TYPES.some(type => type === value);
+}
+
+/**
+ * pending → delivered, or failed once retries run out
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Body of every delivery; `id` is shared by all endpoints that receive the event
+ */
+export interface WebhookEnvelope {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export class WebhookService {
+  private static isRunning = false;
+  private static isProcessing = false;
+  private static processInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Start the webhook delivery worker
+   * Delivers due webhooks every 15 seconds
+   */
+  static start(): void {
+    if (this.isRunning) {
+      console.log('🔄 Webhook service already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('🚀 Starting webhook service...');
+
+    this.processQueue();
+
+    this.processInterval = setInterval(() => {
+      this.processQueue();
+    }, PROCESS_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the webhook delivery worker
+   */
+  static stop(): void {
+    if (!this.isRunning) {
+      console.log('⏸️ Webhook service already stopped');
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.processInterval) {
+      clearInterval(this.processInterval);
+      this.processInterval = null;
+    }
+    console.log('⏹️ Webhook service stopped');
+  }
+
+  /**
+   * Generate a signing secret for a new endpoint
+   */
+  static generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * Sign a delivery body
+   * The signature covers the timestamp too, so receivers can reject replayed requests
+   * @returns The X-Prognos-Signature header value: t=<unix seconds>,v1=<hex HMAC-SHA256>
+   */
+  static sign(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  /**
+   * Check a received X-Prognos-Signature header, as a receiver would
+   * @param toleranceSeconds - Maximum age of the signature
+   */
+  static verifySignature(secret: string, body: string, header: string, toleranceSeconds: number = 300): boolean {
+    const parts = Object.fromEntries(header.split(',').map(part => part.split('=', 2)));
+    const timestamp = parseInt(parts.t);
+
+    if (!timestamp || !parts.v1 || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(secret, body, timestamp));
+    const received = Buffer.from(header);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  /**
+   * Queue an event for every active endpoint subscribed to its type
+   * Never throws, so a webhook problem can't break the action that raised the event
+   */
+  static async emit(type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+    try {
+      const endpoints = await db.webhookEndpoint.findMany({ where: { active: true } });
+      const subscribed = endpoints.filter(endpoint => {
+        const types = Array.isArray(endpoint.eventTypes) ? endpoint.eventTypes : [];
+        return types.length === 0 || types.includes(type);
+      });
+
+      if (subscribed.length === 0) return;
+
+      const envelope: WebhookEnvelope = {
+        id: randomUUID(),
+        type,
+        createdAt: new Date().toISOString(),
+        data
+      };
+      // Stored as the JSON that is delivered, so e.g. Dates in the data are already ISO strings
+      const payload: Prisma.InputJsonValue = JSON.parse(JSON.stringify(envelope));
+
+      await db.webhookDelivery.createMany({
+        data: subscribed.map(endpoint => ({
+          endpointId: endpoint.id,
+          eventType: type,
+          payload
+        }))
+      });
+
+      // Deliver right away rather than waiting for the next tick
+      if (this.isRunning) {
+        this.processQueue();
+      }
+    } catch (error) {
+      console.error(`❌ Error queueing ${type} webhooks:`, error);
+    }
+  }
+
+  /**
+   * Attempt every pending delivery whose retry time has come
+   */
+  static async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const dueDeliveries = await db.webhookDelivery.findMany({
+        where: {
+          status: 'pending',
+          nextAttemptAt: { lte: new Date() }
+        },
+        include: { endpoint: true },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      for (const delivery of dueDeliveries) {
+        await this.attemptDelivery(delivery);
+      }
+    } catch (error) {
+      console.error('❌ Error processing webhook queue:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * POST one delivery to its endpoint; any 2xx response counts as delivered
+   */
+  private static async attemptDelivery(delivery: {
+    id: string;
+    eventType: string;
+    payload: unknown;
+    attempts: number;
+    endpoint: { url: string; secret: string };
+  }): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    let responseStatus: number | null = null;
+
+    try {
+      const response = await fetch(delivery.endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Prognos-Webhooks/1.0',
+          'X-Prognos-Event': delivery.eventType,
+          'X-Prognos-Delivery': delivery.id,
+          'X-Prognos-Signature': this.sign(delivery.endpoint.secret, body)
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+
+      if (!response.ok) {
+        throw new Error(`Receiver responded with HTTP ${response.status}`);
+      }
+
+      await db.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'delivered', attempts, responseStatus, lastError: null, deliveredAt: new Date() }
+      });
+
+      console.log(`📬 Webhook delivered: ${delivery.eventType} → ${delivery.endpoint.url}`);
+    } catch (error) {
+      await this.recordFailure(delivery.id, attempts, responseStatus, error);
+    }
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or fail the delivery after MAX_ATTEMPTS
+   */
+  private static async recordFailure(
+    deliveryId: string,
+    attempts: number,
+    responseStatus: number | null,
+    error: unknown
+  ): Promise<void> {
+    const lastError = error instanceof Error ? error.message : 'Unknown error';
+    const exhausted = attempts >= MAX_ATTEMPTS;
+
+    await db.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        responseStatus,
+        lastError,
+        nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1))
+      }
+    });
+
+    console.error(`❌ Webhook ${deliveryId} attempt ${attempts} failed${exhausted ? ' (giving up)' : ''}: ${lastError}`);
+  }
+
+  /**
+   * Send a finished delivery again with a fresh set of attempts
+   * @throws Error if the delivery does not exist or is still pending
+   */
+  static async replayDelivery(deliveryId: string) {
+    const delivery = await db.webhookDelivery.findUnique({ where: { id: deliveryId } });
+
+    if (!delivery) {
+      throw new Error('Delivery not found');
+    }
+
+    if (delivery.status === 'pending') {
+      throw new Error('Delivery is still pending');
+    }
+
+    const replayed = await db.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), deliveredAt: null }
+    });
+
+    if (this.isRunning) {
+      this.processQueue();
+    }
+
+    return replayed;
+  }
+
+  /**
+   * Get service status
+   */
+  static getStatus(): { isRunning: boolean; intervalMs: number | null } {
+    return {
+      isRunning: this.isRunning,
+      intervalMs: this.processInterval ? PROCESS_INTERVAL_MS : null
+    };
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * The asset a pool is staked and paid out in
+ */
+
+export const STX_ASSET_ID = 'STX';
+export const STX_DECIMALS = 6;
+
+// SIP-010 asset identifier: <contract address>.<contract name>::<token name>
+const SIP010_ASSET_PATTERN = /^(S[A-Z0-9]{27,40}\.[a-zA-Z][a-zA-Z0-9_-]{0,127})::([a-zA-Z][a-zA-Z0-9_-]{0,127})$/;
+
+// Amounts are stored as floats, which hold about 15 significant digits; past 8 decimals
+// converting them to base units would pick up float noise ((1.1).toFixed(18) ends in ...089)
+export const MAX_ASSET_DECIMALS = 8;
+
+export interface StakeAsset {
+  id: string; // "STX" or the SIP-010 asset identifier
+  contractId: string | null; // Token contract, null for STX
+  tokenName: string | null; // Token name inside the contract, null for STX
+  decimals: number;
+  symbol: string;
+}
+
+export const STX_ASSET: StakeAsset = {
+  id: STX_ASSET_ID,
+  contractId: null,
+  tokenName: null,
+  decimals: STX_DECIMALS,
+  symbol: 'STX'
+};
+
+/**
+ * Check whether a string is "STX" or a SIP-010 asset identifier
+ */
+export function isValidAssetId(assetId: string): boolean {
+  return assetId === STX_ASSET_ID || SIP010_ASSET_PATTERN.test(assetId);
+}
+
+/**
+ * Get a pool's stake asset; pools from before stake assets existed are STX
+ */
+export function getStakeAsset(pool: {
+  stakeAsset?: string | null;
+  stakeAssetDecimals?: number | null;
+  stakeAssetSymbol?: string | null;
+}): StakeAsset {
+  const match = pool.stakeAsset ? pool.stakeAsset.match(SIP010_ASSET_PATTERN) : null;
+  if (!match) {
+    return STX_ASSET;
+  }
+
+  return {
+    id: pool.stakeAsset!,
+    contractId: match[1],
+    tokenName: match[2],
+    decimals: pool.stakeAssetDecimals ?? 0,
+    symbol: pool.stakeAssetSymbol || match[2]
+  };
+}
+
+/**
+ * Convert a display amount (e.g. 10.5 STX) to the asset's base units (10500000 microSTX)
+ * @throws Error if the asset has more decimals than a float amount can represent exactly
+ */
+export function toBaseUnits(amount: number, asset: StakeAsset): bigint {
+  if (asset.decimals > MAX_ASSET_DECIMALS) {
+    throw new Error(`${asset.symbol} has ${asset.decimals} decimals; at most ${MAX_ASSET_DECIMALS} are supported`);
+  }
+
+  // Round through a fixed-point string, so float noise like 0.1 + 0.2 doesn't add or drop a unit
+  const [whole, fraction = ''] = amount.toFixed(asset.decimals).split('.');
+  return BigInt(whole + fraction.padEnd(asset.decimals, '0'));
+}
+
+/**
+ * Convert base units back to a display amount
+ */
+export function fromBaseUnits(amount: bigint, asset: StakeAsset): number {
+  return Number(amount) / 10 ** asset.decimals;
+}
@@ -0,0 +1,65 @@
+/**
+ * Shared pool configuration values
+ */
+
+/**
+ * How a pool gets its outcome once the deadline passes:
+ * - crowd: stake-weighted average of the pool's own predictions
+ * - admin: submitted by an admin through the admin API
+ * - oracle: submitted by the pool's configured oracle wallet
+ */
+export const RESOLUTION_MODES = ['crowd', 'admin', 'oracle'] as const;
+export type ResolutionMode = typeof RESOLUTION_MODES[number];
+
+/**
+ * Categorical pools declare between 2 and MAX_OUTCOME_OPTIONS named options
+ */
+export const MAX_OUTCOME_OPTIONS = 20;
+
+/**
+ * Get the named options of a categorical pool
+ * @returns The option names, or null for yes/no and numeric pools
+ */
+export function getOutcomeOptions(pool: { outcomeOptions?: unknown }): string[] | null {
+  return Array.isArray(pool.outcomeOptions) ? (pool.outcomeOptions as string[]) : null;
+}
+
+/**
+ * Pool lifecycle:
+ * - draft: created by an admin but not published yet
+ * - open: taking votes and stakes until the deadline
+ * - locked: deadline passed, waiting for pending stakes before resolving
+ * - awaiting-outcome: waiting for an admin or oracle to submit the outcome
+ * - resolved: outcome set and rewards claimable
+ * - cancelled: voided by an admin
+ */
+export const POOL_STATUSES = ['draft', 'open', 'locked', 'awaiting-outcome', 'resolved', 'cancelled'] as const;
+export type PoolStatus = typeof POOL_STATUSES[number];
+
+/**
+ * Statuses each status may move to
+ * Locked and awaiting-outcome pools go back to open when an admin moves the deadline
+ */
+export const POOL_TRANSITIONS: Record<PoolStatus, readonly PoolStatus[]> = {
+  draft: ['open', 'cancelled'],
+  open: ['locked', 'cancelled'],
+  locked: ['open', 'awaiting-outcome', 'resolved', 'cancelled'],
+  'awaiting-outcome': ['open', 'resolved', 'cancelled'],
+  resolved: [],
+  cancelled: []
+};
+
+/**
+ * Pool field stamped when a pool enters each status
+ * Pools only start out as drafts, so createdAt covers that one
+ */
+export const POOL_STATUS_TIMESTAMPS: Record<
+  Exclude<PoolStatus, 'draft'>,
+  'openedAt' | 'lockedAt' | 'awaitingOutcomeAt' | 'resolvedAt' | 'cancelledAt'
+> = {
+  open: 'openedAt',
+  locked: 'lockedAt',
+  'awaiting-outcome': 'awaitingOutcomeAt',
+  resolved: 'resolvedAt',
+  cancelled: 'cancelledAt'
+};
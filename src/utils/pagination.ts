@@ -0,0 +1,55 @@
+/**
+ * Cursor pagination helpers for list endpoints
+ */
+
+import { ValidationError } from './validation';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PageQuery {
+  limit: number;
+  cursor?: string; // ID of the last item of the previous page
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // Pass as ?cursor= to get the next page, null on the last page
+}
+
+/**
+ * Read ?limit= and ?cursor= from a request query
+ * @throws ValidationError if the limit is not a whole number between 1 and MAX_PAGE_SIZE
+ */
+export function parsePageQuery(query: Record<string, unknown>): PageQuery {
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ValidationError(`Limit must be a whole number between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const cursor = typeof query.cursor === 'string' && query.cursor.length > 0 ? query.cursor : undefined;
+
+  return { limit, cursor };
+}
+
+/**
+ * Prisma findMany arguments for one page
+ * Fetches one extra row so toPage can tell whether another page follows
+ */
+export function pageArgs({ limit, cursor }: PageQuery): { take: number; skip?: number; cursor?: { id: string } } {
+  return cursor
+    ? { take: limit + 1, skip: 1, cursor: { id: cursor } }
+    : { take: limit + 1 };
+}
+
+/**
+ * Trim the extra row fetched by pageArgs and work out the next cursor
+ */
+export function toPage<T extends { id: string }>(rows: T[], { limit }: PageQuery): Page<T> {
+  const items = rows.slice(0, limit);
+  return {
+    items,
+    nextCursor: rows.length > limit ? items[items.length - 1].id : null
+  };
+}
@@ -2,6 +2,15 @@
  * Validation utilities for the reward system
  */
 
+import { getOutcomeOptions, MAX_OUTCOME_OPTIONS, RESOLUTION_MODES } from '../types/pool';
+import { isValidAssetId, MAX_ASSET_DECIMALS, STX_ASSET_ID, STX_DECIMALS } from '../types/asset';
+import {
+  CATEGORICAL_SCORING_STRATEGY,
+  getScoringStrategy,
+  listScoringStrategies,
+  resolveScoringParams
+} from '../services/scoringStrategies';
+
 export class ValidationError extends Error {
   constructor(message: string) {
     super(message);
@@ -52,6 +61,28 @@ export class RewardValidation {
     }
   }
 
+  /**
+   * Validate the winning option of a categorical pool
+   * @param pool - The categorical pool
+   * @param winningOption - The submitted option name (case-insensitive)
+   * @returns The winning option's index, stored as the pool's outcome value
+   * @throws ValidationError if invalid
+   */
+  static validateWinningOption(pool: { outcomeOptions?: unknown }, winningOption: any): number {
+    const options = getOutcomeOptions(pool) || [];
+
+    if (typeof winningOption !== 'string' || winningOption.trim().length === 0) {
+      throw new ValidationError('Winning option is required for categorical pools');
+    }
+
+    const index = options.findIndex(o => o.toLowerCase() === winningOption.trim().toLowerCase());
+    if (index === -1) {
+      throw new ValidationError(`Winning option must be one of: ${options.join(', ')}`);
+    }
+
+    return index;
+  }
+
   /**
    * Validate stake amount
    * @param stakeAmount - The stake amount to validate
@@ -62,18 +93,18 @@ export class RewardValidation {
       throw new ValidationError('Stake amount cannot be null or undefined');
     }
 
-    const numeric = parseFloat(stakeAmount);
-    if (isNaN(numeric)) {
+    // Strings like "10abc" would parse, so only real numbers are accepted
+    if (typeof stakeAmount !== 'number' || !Number.isFinite(stakeAmount)) {
       throw new ValidationError('Stake amount must be a number');
     }
 
-    if (numeric <= 0) {
+    if (stakeAmount <= 0) {
       throw new ValidationError('Stake amount must be positive');
     }
 
     // Optional: Add maximum stake limit
     const MAX_STAKE = 10000; // Adjust as needed
-    if (numeric > MAX_STAKE) {
+    if (stakeAmount > MAX_STAKE) {
       throw new ValidationError(`Stake amount cannot exceed ${MAX_STAKE}`);
     }
   }
@@ -126,6 +157,55 @@ export class RewardValidation {
    * @throws ValidationError if invalid
    */
   static validatePoolCreation(poolData: any): void {
+    this.validatePoolText(poolData);
+    this.validateDeadline(poolData.deadline);
+    this.validateResolutionMode(poolData.resolutionMode, poolData.oracleAddress);
+    this.validateScoringStrategy(poolData.scoringStrategy, poolData.scoringParams);
+    this.validateProtocolFeeBps(poolData.protocolFeeBps);
+    this.validateOutcomeOptions(poolData.outcomeOptions);
+    this.validateStakeAsset(poolData.stakeAsset, poolData.stakeAssetDecimals, poolData.stakeAssetSymbol);
+    this.validateCategoricalStrategy(poolData);
+  }
+
+  /**
+   * Validate an edit to an existing pool
+   * Only the fields being changed are checked, so a locked pool whose deadline has passed
+   * can still have its description fixed without moving the deadline
+   * @param poolData - The pool as it would be after the edit
+   * @param changes - The fields sent in the edit
+   * @throws ValidationError if a changed field is invalid
+   */
+  static validatePoolUpdate(poolData: any, changes: Record<string, unknown>): void {
+    const isChanged = (...fields: string[]) => fields.some(field => field in changes);
+
+    if (isChanged('title', 'description', 'tag')) {
+      this.validatePoolText(poolData);
+    }
+
+    if (isChanged('deadline')) {
+      this.validateDeadline(poolData.deadline);
+    }
+
+    if (isChanged('resolutionMode', 'oracleAddress')) {
+      this.validateResolutionMode(poolData.resolutionMode, poolData.oracleAddress);
+    }
+
+    if (isChanged('scoringStrategy', 'scoringParams', 'outcomeOptions')) {
+      this.validateScoringStrategy(poolData.scoringStrategy, poolData.scoringParams);
+      this.validateOutcomeOptions(poolData.outcomeOptions);
+      this.validateCategoricalStrategy(poolData);
+    }
+
+    if (isChanged('protocolFeeBps')) {
+      this.validateProtocolFeeBps(poolData.protocolFeeBps);
+    }
+
+    if (isChanged('stakeAsset', 'stakeAssetDecimals', 'stakeAssetSymbol')) {
+      this.validateStakeAsset(poolData.stakeAsset, poolData.stakeAssetDecimals, poolData.stakeAssetSymbol);
+    }
+  }
+
+  private static validatePoolText(poolData: any): void {
     if (!poolData.title || poolData.title.trim().length === 0) {
       throw new ValidationError('Pool title is required');
     }
@@ -138,8 +218,6 @@ export class RewardValidation {
       throw new ValidationError('Pool tag is required');
     }
 
-    this.validateDeadline(poolData.deadline);
-
     // Optional: Validate title and description length
     if (poolData.title.length > 200) {
       throw new ValidationError('Pool title is too long (max 200 characters)');
@@ -150,6 +228,161 @@ export class RewardValidation {
     }
   }
 
+  /**
+   * Categorical pools always use the categorical strategy, and nothing else can
+   */
+  private static validateCategoricalStrategy(poolData: any): void {
+    const isCategorical = Array.isArray(poolData.outcomeOptions);
+    if (isCategorical !== (poolData.scoringStrategy === CATEGORICAL_SCORING_STRATEGY)) {
+      throw new ValidationError(isCategorical
+        ? 'Pools with outcome options must use the categorical scoring strategy'
+        : 'The categorical scoring strategy requires outcome options');
+    }
+  }
+
+  /**
+   * Validate a pool's stake asset
+   * @param stakeAsset - "STX" or a SIP-010 asset identifier "<contract id>::<token name>"; undefined means STX
+   * @param decimals - Token decimals (must be 6 for STX)
+   * @param symbol - Display symbol
+   * @throws ValidationError if invalid
+   */
+  static validateStakeAsset(stakeAsset: any, decimals: any, symbol: any): void {
+    if (stakeAsset === undefined || stakeAsset === null) {
+      return;
+    }
+
+    if (typeof stakeAsset !== 'string' || !isValidAssetId(stakeAsset)) {
+      throw new ValidationError('Stake asset must be "STX" or a SIP-010 asset identifier like "SP...contract::token"');
+    }
+
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_ASSET_DECIMALS) {
+      throw new ValidationError(`Stake asset decimals must be a whole number between 0 and ${MAX_ASSET_DECIMALS}`);
+    }
+
+    if (stakeAsset === STX_ASSET_ID && decimals !== STX_DECIMALS) {
+      throw new ValidationError(`STX has ${STX_DECIMALS} decimals`);
+    }
+
+    if (typeof symbol !== 'string' || symbol.trim().length === 0 || symbol.length > 12) {
+      throw new ValidationError('Stake asset symbol is required (max 12 characters)');
+    }
+  }
+
+  /**
+   * Validate the named options of a categorical pool
+   * @param outcomeOptions - Option names, or null/undefined for yes/no and numeric pools
+   * @throws ValidationError if invalid
+   */
+  static validateOutcomeOptions(outcomeOptions: any): void {
+    if (outcomeOptions === undefined || outcomeOptions === null) {
+      return;
+    }
+
+    if (!Array.isArray(outcomeOptions) || outcomeOptions.length < 2 || outcomeOptions.length > MAX_OUTCOME_OPTIONS) {
+      throw new ValidationError(`Outcome options must be a list of 2 to ${MAX_OUTCOME_OPTIONS} names`);
+    }
+
+    if (outcomeOptions.some(option => typeof option !== 'string' || option.trim().length === 0 || option.length > 100)) {
+      throw new ValidationError('Outcome options must be non-empty names (max 100 characters)');
+    }
+
+    const normalized = outcomeOptions.map((option: string) => option.trim().toLowerCase());
+    if (new Set(normalized).size !== normalized.length) {
+      throw new ValidationError('Outcome options must be unique');
+    }
+  }
+
+  /**
+   * Validate a prediction against the pool it is made on
+   * @param pool - The pool (categorical pools declare outcomeOptions)
+   * @param predictionValue - The submitted prediction
+   * @returns The prediction to store (the option's declared name for categorical pools)
+   * @throws ValidationError if invalid
+   */
+  static validatePoolPrediction(pool: { outcomeOptions?: unknown }, predictionValue: any): string {
+    if (typeof predictionValue !== 'string') {
+      throw new ValidationError('Prediction value must be a string');
+    }
+
+    const options = getOutcomeOptions(pool);
+
+    if (options) {
+      const option = options.find(o => o.toLowerCase() === predictionValue.trim().toLowerCase());
+      if (!option) {
+        throw new ValidationError(`Prediction must be one of: ${options.join(', ')}`);
+      }
+      return option;
+    }
+
+    if (!this.validatePredictionValue(predictionValue)) {
+      throw new ValidationError('Prediction must be "yes", "no" or a number between 0 and 100');
+    }
+    return predictionValue.trim();
+  }
+
+  /**
+   * Validate a per-pool protocol fee override
+   * @param protocolFeeBps - Fee in basis points (0-10000), or null to use the global default
+   * @throws ValidationError if invalid
+   */
+  static validateProtocolFeeBps(protocolFeeBps: any): void {
+    if (protocolFeeBps === undefined || protocolFeeBps === null) {
+      return;
+    }
+
+    if (!Number.isInteger(protocolFeeBps) || protocolFeeBps < 0 || protocolFeeBps > 10000) {
+      throw new ValidationError('Protocol fee must be a whole number of basis points between 0 and 10000');
+    }
+  }
+
+  /**
+   * Validate a pool's scoring strategy and its parameters
+   * @param scoringStrategy - Registered strategy name (defaults to linear when omitted)
+   * @param scoringParams - Strategy parameters, merged over the strategy defaults
+   * @throws ValidationError if invalid
+   */
+  static validateScoringStrategy(scoringStrategy: any, scoringParams: any): void {
+    if (scoringStrategy === undefined || scoringStrategy === null) {
+      return;
+    }
+
+    if (!listScoringStrategies().includes(scoringStrategy)) {
+      throw new ValidationError(`Scoring strategy must be one of: ${listScoringStrategies().join(', ')}`);
+    }
+
+    if (scoringParams !== undefined && scoringParams !== null &&
+        (typeof scoringParams !== 'object' || Array.isArray(scoringParams))) {
+      throw new ValidationError('Scoring params must be an object');
+    }
+
+    const strategy = getScoringStrategy(scoringStrategy);
+    const error = strategy.validateParams(resolveScoringParams(strategy, scoringParams));
+    if (error) {
+      throw new ValidationError(error);
+    }
+  }
+
+  /**
+   * Validate how a pool will be resolved
+   * @param resolutionMode - "crowd", "admin" or "oracle" (defaults to crowd when omitted)
+   * @param oracleAddress - Wallet allowed to submit the outcome, required for oracle pools
+   * @throws ValidationError if invalid
+   */
+  static validateResolutionMode(resolutionMode: any, oracleAddress: any): void {
+    if (resolutionMode === undefined || resolutionMode === null) {
+      return;
+    }
+
+    if (!RESOLUTION_MODES.includes(resolutionMode)) {
+      throw new ValidationError(`Resolution mode must be one of: ${RESOLUTION_MODES.join(', ')}`);
+    }
+
+    if (resolutionMode === 'oracle') {
+      this.validateWalletAddress(oracleAddress);
+    }
+  }
+
   /**
    * Sanitize input string
    * @param input - The input to sanitize
@@ -175,10 +408,11 @@ export class RewardValidation {
       throw new ValidationError('Pool not found');
     }
 
-    if (pool.isResolved) {
-      throw new ValidationError('Cannot make predictions on resolved pools');
+    if (pool.status !== 'open') {
+      throw new ValidationError(`Pool is ${pool.status} and not taking predictions`);
     }
 
+    // Pools past their deadline are closed even before the resolver locks them
     const now = new Date();
     if (now > new Date(pool.deadline)) {
       throw new ValidationError('Pool deadline has passed');